@@ -0,0 +1,36 @@
+export interface ParsedArgs {
+  positional: string[]
+  flags: Set<string>
+  values: Map<string, string>
+}
+
+/**
+ * Splits argv into positionals, boolean flags and `--flag value` / `--flag=value` pairs.
+ * Only the flags listed in `valueFlags` consume the following argument.
+ */
+export const parseArgs = (args: string[], valueFlags: readonly string[] = []): ParsedArgs => {
+  const parsed: ParsedArgs = { flags: new Set(), positional: [], values: new Map() }
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index] ?? ''
+    if (!arg.startsWith('-')) {
+      parsed.positional.push(arg)
+      continue
+    }
+
+    const [flag = arg, inline] = arg.split(/=(.*)/s)
+    if (!valueFlags.includes(flag)) {
+      parsed.flags.add(arg)
+      continue
+    }
+
+    const value = inline ?? args[index + 1]
+    if (value === undefined || (inline === undefined && value.startsWith('--'))) {
+      throw new Error(`Missing value for ${flag}`)
+    }
+    parsed.values.set(flag, value)
+    if (inline === undefined) index += 1
+  }
+
+  return parsed
+}
@@ -0,0 +1,137 @@
+import { cp, mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { createHash } from 'node:crypto'
+import path from 'node:path'
+import { topologicalLevels, type WorkspaceGraph } from './graph'
+import { ROOT_DIR } from './scaffolders/utils'
+import { toPosix, walkFiles, type Workspace } from './workspaces'
+
+export type OutputStream = 'stdout' | 'stderr'
+
+export interface OutputLine {
+  stream: OutputStream
+  line: string
+}
+
+export interface CacheEntry {
+  workspace: string
+  task: string
+  command: string
+  output: OutputLine[]
+  /** Directories (relative to the workspace) stored next to the entry and restored on a hit. */
+  outputs: string[]
+  createdAt: string
+}
+
+export interface TaskCache {
+  dir: string
+  keys: Map<string, string>
+}
+
+export const CACHE_DIR = path.join(ROOT_DIR, '.cache', 'tasks')
+/**
+ * Directories each task produces. Only these are stored and restored: saving `dist/` for a
+ * `typecheck` entry would later restore whatever (possibly stale) build existed at that moment.
+ */
+export const TASK_OUTPUTS: Record<string, string[]> = { build: ['dist'] }
+
+const taskOutputs = (task: string) => TASK_OUTPUTS[task] ?? []
+
+/** Root files that can change the result of any workspace task. */
+const ROOT_INPUTS = ['package.json', 'bun.lock', 'tsconfig.json', 'oxlint.json', 'prettier.config.cjs']
+const ENTRY_FILE = 'entry.json'
+
+export const resolveCommand = (workspace: Workspace, task: string) => {
+  const scripts = (workspace.manifest.scripts ?? {}) as Record<string, string>
+  return scripts[task]
+}
+
+const hashFiles = async (hash: ReturnType<typeof createHash>, baseDir: string, files: string[]) => {
+  for (const file of files.toSorted()) {
+    hash.update(`\0${toPosix(path.relative(baseDir, file))}\0`)
+    hash.update(await readFile(file))
+  }
+}
+
+/**
+ * Computes a cache key per workspace from its files (sources and configs such as
+ * `tsconfig.json`, `bunup.config.ts`, `oxlint.json`), the shared root inputs, the task's
+ * command and the keys of the workspaces it depends on. A dependency's outputs are a
+ * function of its inputs, so chaining keys invalidates dependents whenever they change.
+ */
+export const computeTaskKeys = async (graph: WorkspaceGraph, task: string, rootDir = ROOT_DIR) => {
+  const rootHash = createHash('sha256')
+  await hashFiles(
+    rootHash,
+    rootDir,
+    ROOT_INPUTS.map((file) => path.join(rootDir, file)).filter((file) => existsSync(file)),
+  )
+  const rootDigest = rootHash.digest('hex')
+
+  const keys = new Map<string, string>()
+  for (const name of topologicalLevels(graph).flat()) {
+    const workspace = graph.workspaces.get(name) as Workspace
+    const hash = createHash('sha256')
+    hash.update(
+      JSON.stringify({ bun: Bun.version, command: resolveCommand(workspace, task) ?? '', root: rootDigest, task }),
+    )
+    for (const dependency of graph.dependencies.get(name) ?? []) {
+      hash.update(`\0${dependency}\0${keys.get(dependency) ?? ''}`)
+    }
+    await hashFiles(hash, workspace.dir, await walkFiles(workspace.dir))
+    keys.set(name, hash.digest('hex'))
+  }
+  return keys
+}
+
+export const createTaskCache = async (graph: WorkspaceGraph, task: string, dir = CACHE_DIR, rootDir = ROOT_DIR) => ({
+  dir,
+  keys: await computeTaskKeys(graph, task, rootDir),
+})
+
+export const readCacheEntry = async (cache: TaskCache, name: string) => {
+  const key = cache.keys.get(name)
+  if (!key) return undefined
+  const entryPath = path.join(cache.dir, key, ENTRY_FILE)
+  if (!existsSync(entryPath)) return undefined
+  return JSON.parse(await readFile(entryPath, 'utf8')) as CacheEntry
+}
+
+/**
+ * Stores the output of a successful run. The entry is written to a temporary directory first
+ * so a crash never leaves a half-written entry behind.
+ */
+export const writeCacheEntry = async (cache: TaskCache, workspace: Workspace, task: string, output: OutputLine[]) => {
+  const key = cache.keys.get(workspace.name)
+  if (!key) return
+  const entryDir = path.join(cache.dir, key)
+  const stagingDir = `${entryDir}.${process.pid}.tmp`
+  await rm(stagingDir, { force: true, recursive: true })
+  await mkdir(stagingDir, { recursive: true })
+
+  const outputs = taskOutputs(task).filter((dir) => existsSync(path.join(workspace.dir, dir)))
+  for (const dir of outputs) {
+    await cp(path.join(workspace.dir, dir), path.join(stagingDir, dir), { recursive: true })
+  }
+  const entry: CacheEntry = {
+    command: resolveCommand(workspace, task) ?? '',
+    createdAt: new Date().toISOString(),
+    output,
+    outputs,
+    task,
+    workspace: workspace.name,
+  }
+  await writeFile(path.join(stagingDir, ENTRY_FILE), `${JSON.stringify(entry, undefined, 2)}\n`, 'utf8')
+
+  await rm(entryDir, { force: true, recursive: true })
+  await rename(stagingDir, entryDir)
+}
+
+export const restoreOutputs = async (cache: TaskCache, workspace: Workspace, entry: CacheEntry) => {
+  const key = cache.keys.get(workspace.name) as string
+  for (const dir of entry.outputs) {
+    const target = path.join(workspace.dir, dir)
+    await rm(target, { force: true, recursive: true })
+    await cp(path.join(cache.dir, key, dir), target, { recursive: true })
+  }
+}
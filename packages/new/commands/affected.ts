@@ -0,0 +1,156 @@
+import type { ParsedArgs } from '../args'
+import { createTaskCache } from '../cache'
+import { buildGraph, subgraph, topologicalLevels, type WorkspaceGraph } from '../graph'
+import { formatSummary, runTasks } from '../runner'
+import { ROOT_DIR } from '../scaffolders/utils'
+import { listWorkspaces, toPosix } from '../workspaces'
+import { resolveConcurrency } from './run'
+
+export const AFFECTED_VALUE_FLAGS = ['--base', '--run', '--concurrency'] as const
+
+export type AffectedReason =
+  { kind: 'changed'; files: string[] } | { kind: 'dependency'; via: string } | { kind: 'root' }
+
+export interface AffectedWorkspace {
+  name: string
+  path: string
+  reason: AffectedReason
+}
+
+const USAGE =
+  'Usage: bun run new affected [--base <ref>] [--run lint:check,typecheck,test] [--concurrency <n>] [--no-cache] [--json]'
+const DEFAULT_BASE = 'main'
+/** Files outside every workspace that cannot change how a workspace builds. */
+const ROOT_FILES_IGNORED = /\.(md|txt)$|^\.github\/|^LICENSE/i
+
+const git = async (args: string[], cwd: string) => {
+  const proc = Bun.spawn(['git', ...args], { cwd, stderr: 'pipe', stdout: 'pipe' })
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ])
+  if (exitCode !== 0) {
+    throw new Error(`git ${args.join(' ')} failed: ${stderr.trim()}`)
+  }
+  return stdout.split('\n').filter(Boolean)
+}
+
+/**
+ * Files changed since the merge base with `base`, plus uncommitted and untracked files.
+ */
+export const listChangedFiles = async (base: string, rootDir = ROOT_DIR) => {
+  const [committed, uncommitted, untracked] = await Promise.all([
+    git(['diff', '--name-only', `${base}...HEAD`], rootDir),
+    git(['diff', '--name-only', 'HEAD'], rootDir),
+    git(['ls-files', '--others', '--exclude-standard'], rootDir),
+  ])
+  return [...new Set([...committed, ...uncommitted, ...untracked])].map(toPosix).toSorted()
+}
+
+const findOwner = (graph: WorkspaceGraph, file: string) => {
+  let owner: string | undefined
+  let ownerDepth = -1
+  for (const [name, { relativeDir }] of graph.workspaces) {
+    if (file.startsWith(`${relativeDir}/`) && relativeDir.length > ownerDepth) {
+      owner = name
+      ownerDepth = relativeDir.length
+    }
+  }
+  return owner
+}
+
+/**
+ * Maps changed files to their workspaces and adds every workspace that depends on one of
+ * them. A change to a root file (lockfile, shared config) affects every workspace.
+ */
+export const resolveAffected = (graph: WorkspaceGraph, files: string[]) => {
+  const affected = new Map<string, AffectedReason>()
+
+  for (const file of files) {
+    const owner = findOwner(graph, file)
+    if (!owner) {
+      if (ROOT_FILES_IGNORED.test(file)) continue
+      for (const name of graph.workspaces.keys()) affected.set(name, { kind: 'root' })
+      break
+    }
+    const reason = affected.get(owner)
+    if (reason?.kind === 'changed') reason.files.push(file)
+    else affected.set(owner, { files: [file], kind: 'changed' })
+  }
+
+  const queue = [...affected.keys()]
+  while (queue.length > 0) {
+    const name = queue.shift() as string
+    for (const dependent of graph.dependents.get(name) ?? []) {
+      if (affected.has(dependent)) continue
+      affected.set(dependent, { kind: 'dependency', via: name })
+      queue.push(dependent)
+    }
+  }
+
+  const order = topologicalLevels(subgraph(graph, affected.keys())).flat()
+  return order.map((name): AffectedWorkspace => ({
+    name,
+    path: graph.workspaces.get(name)?.relativeDir ?? name,
+    reason: affected.get(name) as AffectedReason,
+  }))
+}
+
+const writeToStderr = (line: string) => {
+  process.stderr.write(`${line}\n`)
+}
+
+const formatReason = (reason: AffectedReason) => {
+  switch (reason.kind) {
+    case 'changed': {
+      return `${reason.files.length} changed file(s)`
+    }
+    case 'dependency': {
+      return `depends on ${reason.via}`
+    }
+    default: {
+      return 'root file changed'
+    }
+  }
+}
+
+export const runAffected = async (args: ParsedArgs) => {
+  if (args.positional.length > 0) {
+    throw new Error(USAGE)
+  }
+  const base = args.values.get('--base') ?? DEFAULT_BASE
+  const tasks = (args.values.get('--run') ?? '').split(',').filter(Boolean)
+  const concurrency = resolveConcurrency(args.values.get('--concurrency'))
+
+  const graph = buildGraph(await listWorkspaces())
+  const affected = resolveAffected(graph, await listChangedFiles(base))
+
+  if (args.flags.has('--json')) {
+    console.log(JSON.stringify({ affected, base }, undefined, 2))
+  } else if (affected.length === 0) {
+    console.log(`No workspaces affected since ${base}`)
+  } else {
+    const width = Math.max(...affected.map(({ name }) => name.length))
+    console.log(`Affected since ${base}:`)
+    for (const { name, reason } of affected) console.log(`  ${name.padEnd(width)}  ${formatReason(reason)}`)
+  }
+
+  const scoped = subgraph(
+    graph,
+    affected.map(({ name }) => name),
+  )
+  // With --json, stdout holds only the JSON document, so task output and summaries go to stderr.
+  const write = args.flags.has('--json') ? writeToStderr : undefined
+  const report = args.flags.has('--json') ? console.error : console.log
+  for (const task of tasks) {
+    // Keys come from the full graph so they match the ones `bun run new run` stores.
+    const cache = args.flags.has('--no-cache') ? undefined : await createTaskCache(graph, task)
+    const results = await runTasks(scoped, task, { cache, concurrency, write })
+    report(formatSummary(task, results))
+    if (results.some((result) => result.status === 'failed')) {
+      process.exitCode = 1
+      return
+    }
+  }
+}
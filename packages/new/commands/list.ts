@@ -0,0 +1,141 @@
+import { existsSync } from 'node:fs'
+import path from 'node:path'
+import {
+  detectKind,
+  detectQaWiring,
+  detectTailwind,
+  type PackageJson,
+  type WorkspaceKind,
+} from '@bun-monorepo-template/qa/detect'
+import type { ParsedArgs } from '../args'
+import { ROOT_DIR } from '../scaffolders/utils'
+import { findWorkspace, listWorkspaceDependencies, listWorkspaces, walkFiles, type Workspace } from '../workspaces'
+
+export interface WorkspaceSummary {
+  name: string
+  path: string
+  kind: WorkspaceKind | 'invalid'
+  /** Why the `qa` block in package.json could not be read; `kind` is `invalid` then. */
+  error?: string
+  tests: boolean
+  tailwind: boolean
+  qa: boolean
+  bunup: boolean
+  dependencies: string[]
+  dependents: string[]
+}
+
+const BUNUP_CONFIGS = ['bunup.config.ts', 'bunup.config.js', 'bunup.config.mjs']
+const TEST_FILE = /\.(test|spec)\.[cm]?[jt]sx?$/
+
+const hasTests = async (workspace: Workspace) => {
+  if (existsSync(path.join(workspace.dir, 'tests'))) return true
+  const files = await walkFiles(path.join(workspace.dir, 'src'))
+  return files.some((file) => TEST_FILE.test(file))
+}
+
+// One workspace with a broken `qa` block must not stop the others from being described.
+const detectQaFields = (pkg: PackageJson): Pick<WorkspaceSummary, 'error' | 'kind' | 'tailwind'> => {
+  try {
+    return { kind: detectKind(pkg), tailwind: detectTailwind(pkg) }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error), kind: 'invalid', tailwind: false }
+  }
+}
+
+export const describeWorkspaces = async (rootDir = ROOT_DIR): Promise<WorkspaceSummary[]> => {
+  const workspaces = await listWorkspaces(rootDir)
+  const names = new Set(workspaces.map((workspace) => workspace.name))
+  const dependencies = new Map(
+    workspaces.map((workspace) => [workspace.name, listWorkspaceDependencies(workspace, names)]),
+  )
+
+  return await Promise.all(
+    workspaces.map(async (workspace) => {
+      const pkg = workspace.manifest as PackageJson
+      return {
+        bunup: BUNUP_CONFIGS.some((file) => existsSync(path.join(workspace.dir, file))),
+        dependencies: dependencies.get(workspace.name) ?? [],
+        dependents: workspaces
+          .filter((other) => dependencies.get(other.name)?.includes(workspace.name))
+          .map((other) => other.name),
+        ...detectQaFields(pkg),
+        name: workspace.name,
+        path: workspace.relativeDir,
+        qa: detectQaWiring(pkg),
+        tests: await hasTests(workspace),
+      }
+    }),
+  )
+}
+
+const yesNo = (value: boolean) => (value ? 'yes' : 'no')
+
+const TABLE_COLUMNS: Array<[header: string, cell: (summary: WorkspaceSummary) => string]> = [
+  ['NAME', (summary) => summary.name],
+  ['PATH', (summary) => summary.path],
+  ['KIND', (summary) => summary.kind],
+  ['TESTS', (summary) => yesNo(summary.tests)],
+  ['TAILWIND', (summary) => yesNo(summary.tailwind)],
+  ['QA', (summary) => yesNo(summary.qa)],
+  ['BUNUP', (summary) => yesNo(summary.bunup)],
+  ['DEPENDS ON', (summary) => summary.dependencies.join(', ') || '-'],
+]
+
+export const formatTable = (summaries: WorkspaceSummary[]) => {
+  const rows = [
+    TABLE_COLUMNS.map(([header]) => header),
+    ...summaries.map((summary) => TABLE_COLUMNS.map(([, cell]) => cell(summary))),
+  ]
+  const widths = TABLE_COLUMNS.map((_, column) => Math.max(...rows.map((row) => row[column]?.length ?? 0)))
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column] ?? 0))
+        .join('  ')
+        .trimEnd(),
+    )
+    .join('\n')
+}
+
+export const formatInfo = (summary: WorkspaceSummary) =>
+  [
+    ['Name', summary.name],
+    ['Path', summary.path],
+    ['Kind', summary.error ? `${summary.kind} (${summary.error})` : summary.kind],
+    ['Tests', yesNo(summary.tests)],
+    ['Tailwind', yesNo(summary.tailwind)],
+    ['QA', yesNo(summary.qa)],
+    ['Bunup', yesNo(summary.bunup)],
+    ['Depends on', summary.dependencies.join(', ') || '-'],
+    ['Used by', summary.dependents.join(', ') || '-'],
+  ]
+    .map(([label = '', value]) => `${label.padEnd('Depends on'.length)}  ${value}`)
+    .join('\n')
+
+export const runList = async (args: ParsedArgs) => {
+  const summaries = await describeWorkspaces()
+  if (args.flags.has('--json')) {
+    console.log(JSON.stringify(summaries, undefined, 2))
+    return
+  }
+  console.log(formatTable(summaries))
+  for (const { error, name } of summaries) {
+    if (error) console.error(`${name}: ${error}`)
+  }
+}
+
+export const runInfo = async (args: ParsedArgs) => {
+  const [query] = args.positional
+  if (!query) {
+    throw new Error('Usage: bun run new info <name|path> [--json]')
+  }
+
+  const { name } = findWorkspace(await listWorkspaces(), query)
+  const summary = (await describeWorkspaces()).find((candidate) => candidate.name === name) as WorkspaceSummary
+  if (args.flags.has('--json')) {
+    console.log(JSON.stringify(summary, undefined, 2))
+    return
+  }
+  console.log(formatInfo(summary))
+}
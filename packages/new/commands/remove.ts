@@ -0,0 +1,156 @@
+import { readFile, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { ParsedArgs } from '../args'
+import { formatPlan, isDryRun, recordStep, startPlan, stopPlan, toPlanPath } from '../scaffolders/plan'
+import { readJson, ROOT_DIR, runWorkspaceInstall, writeJson } from '../scaffolders/utils'
+import { canPrompt, confirm } from '../wizard'
+import {
+  DEPENDENCY_FIELDS,
+  findWorkspace,
+  listWorkspaces,
+  walkFiles,
+  type Workspace,
+  type WorkspaceManifest,
+} from '../workspaces'
+
+export interface RemoveOptions {
+  install: boolean
+  rootDir?: string
+}
+
+export interface RemoveResult {
+  /** Files that still import the removed package and need a manual fix. */
+  references: string[]
+}
+
+const USAGE = 'Usage: bun run new remove <name|path> [--yes] [--no-install] [--dry-run [--json]]'
+const SOURCE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mts', '.mjs', '.cts', '.cjs'])
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const stripDependency = async (manifestPath: string, name: string, rootDir: string) => {
+  const manifest = await readJson<WorkspaceManifest>(manifestPath)
+  const removed = DEPENDENCY_FIELDS.filter((field) => {
+    const entries = manifest[field] as Record<string, string> | undefined
+    return entries?.[name]?.startsWith('workspace:')
+  })
+  if (removed.length === 0) return
+
+  if (isDryRun()) {
+    recordStep({
+      description: `remove ${name} from ${removed.join(', ')}`,
+      kind: 'write',
+      path: toPlanPath(rootDir, manifestPath),
+    })
+    return
+  }
+  for (const field of removed) {
+    const { [name]: _removed, ...rest } = manifest[field] as Record<string, string>
+    manifest[field] = rest
+  }
+  await writeJson(manifestPath, manifest)
+}
+
+/**
+ * Drops the side-effect `import '<name>/index.css'` lines the ui template's postinstall adds
+ * to app entrypoints, and returns the files that still reference the package afterwards.
+ */
+const stripCssImports = async (workspace: Workspace, name: string, rootDir: string) => {
+  const cssImport = new RegExp(`^import ['"]${escapeRegExp(name)}/index\\.css['"];?[ \\t]*\\r?\\n?`, 'gm')
+  const reference = new RegExp(`['"]${escapeRegExp(name)}(?:/[^'"]*)?['"]`)
+  const references: string[] = []
+
+  const files = await walkFiles(path.join(workspace.dir, 'src'))
+  for (const filePath of files.filter((file) => SOURCE_EXTENSIONS.has(path.extname(file)))) {
+    const contents = await readFile(filePath, 'utf8')
+    const next = contents.replace(cssImport, '')
+    if (reference.test(next)) references.push(toPlanPath(rootDir, filePath))
+    if (next === contents) continue
+
+    if (isDryRun()) {
+      recordStep({ description: `remove ${name}/index.css import`, kind: 'write', path: toPlanPath(rootDir, filePath) })
+      continue
+    }
+    await writeFile(filePath, next, 'utf8')
+  }
+  return references
+}
+
+export const removeWorkspace = async (
+  workspace: Workspace,
+  workspaces: Workspace[],
+  options: RemoveOptions,
+): Promise<RemoveResult> => {
+  const rootDir = options.rootDir ?? ROOT_DIR
+  const others = workspaces.filter((other) => other.dir !== workspace.dir)
+  const references: string[] = []
+
+  for (const manifestPath of [path.join(rootDir, 'package.json'), ...others.map((other) => other.manifestPath)]) {
+    await stripDependency(manifestPath, workspace.name, rootDir)
+  }
+  for (const other of others) {
+    references.push(...(await stripCssImports(other, workspace.name, rootDir)))
+  }
+
+  if (isDryRun()) {
+    recordStep({ kind: 'remove', path: toPlanPath(rootDir, workspace.dir) })
+  } else {
+    await rm(workspace.dir, { force: true, recursive: true })
+  }
+
+  if (options.install) {
+    await runWorkspaceInstall()
+  }
+  return { references }
+}
+
+const confirmRemoval = async (workspace: Workspace, args: ParsedArgs) => {
+  if (args.flags.has('--yes')) return true
+  if (!canPrompt()) {
+    throw new Error(`Refusing to remove ${workspace.relativeDir} without a TTY; pass --yes to confirm`)
+  }
+  return await confirm(`Remove ${workspace.relativeDir} (${workspace.name})?`)
+}
+
+const warnReferences = (name: string, references: string[]) => {
+  if (references.length === 0) return
+  console.warn(`These files still import ${name}:\n${references.map((file) => `  ${file}`).join('\n')}`)
+}
+
+export const runRemove = async (args: ParsedArgs) => {
+  const [query] = args.positional
+  if (!query) {
+    throw new Error(USAGE)
+  }
+
+  const workspaces = await listWorkspaces()
+  const workspace = findWorkspace(workspaces, query)
+  const options: RemoveOptions = { install: !args.flags.has('--no-install') }
+
+  if (args.flags.has('--dry-run')) {
+    const plan = startPlan()
+    let result: RemoveResult
+    try {
+      result = await removeWorkspace(workspace, workspaces, options)
+    } finally {
+      stopPlan()
+    }
+    if (args.flags.has('--json')) {
+      console.log(JSON.stringify({ ...result, steps: plan.steps, workspace: workspace.relativeDir }, undefined, 2))
+      return
+    }
+    console.log(`Dry run: remove ${workspace.relativeDir}`)
+    console.log(formatPlan(plan))
+    warnReferences(workspace.name, result.references)
+    return
+  }
+
+  if (!(await confirmRemoval(workspace, args))) {
+    console.log('Aborted')
+    return
+  }
+
+  const { references } = await removeWorkspace(workspace, workspaces, options)
+  console.log(`Removed ${workspace.name} (${workspace.relativeDir})`)
+  warnReferences(workspace.name, references)
+}
@@ -0,0 +1,311 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { connect } from 'node:net'
+import path from 'node:path'
+import type { ParsedArgs } from '../args'
+import { formatPlan, isDryRun, recordStep, startPlan, stopPlan, toPlanPath } from '../scaffolders/plan'
+import { withRollback } from '../scaffolders/rollback'
+import {
+  readJson,
+  resolvePackageName,
+  resolveTarget,
+  ROOT_DIR,
+  runWorkspaceInstall,
+  writeJson,
+  type DefaultRoot,
+} from '../scaffolders/utils'
+import {
+  findWorkspace,
+  listWorkspaceDependencies,
+  listWorkspaces,
+  toPosix,
+  walkFiles,
+  type Workspace,
+  type WorkspaceManifest,
+} from '../workspaces'
+
+export interface RenameOptions {
+  install: boolean
+  rootDir?: string
+}
+
+export interface RenameResult {
+  name: string
+  targetDir: string
+  /** Files rewritten to point at the new name. */
+  changed: string[]
+}
+
+type Replacement = [pattern: RegExp, replacement: string]
+
+const USAGE = 'Usage: bun run new rename <old> <new> [--no-install] [--dry-run [--json]]'
+const SOCKET_TIMEOUT_MS = 500
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/** Matches `value` as a whole name or path prefix, so `@acme/ui` hits `@acme/ui/button` but not `@acme/ui-kit`. */
+const namePattern = (value: string) => new RegExp(`(?<![\\w@/.-])${escapeRegExp(value)}(?![\\w-])`, 'g')
+
+const shortNameOf = (name: string) => name.split('/').pop() ?? name
+
+const toSafeId = (value: string) =>
+  value
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+
+/** `serve-with-control` names its socket `.<short package name>-<port>.sock` at the repo root. */
+const socketPattern = (name: string) => new RegExp(`\\.${escapeRegExp(toSafeId(shortNameOf(name)))}-(\\d+)\\.sock`, 'g')
+
+const isSocketAlive = (socketPath: string) =>
+  new Promise<boolean>((resolve) => {
+    const client = connect(socketPath, () => {
+      client.end()
+      resolve(true)
+    })
+    client.setTimeout(SOCKET_TIMEOUT_MS, () => {
+      client.destroy()
+      resolve(false)
+    })
+    client.on('error', () => resolve(false))
+  })
+
+/**
+ * A running dev server keeps listening on the old socket name after the rename, so refuse
+ * while one is alive and clear out stale sockets left behind by crashed servers.
+ */
+const releaseControlSockets = async (from: Workspace, rootDir: string) => {
+  const pattern = socketPattern(from.name)
+  const sockets = (await readdir(rootDir)).filter((entry) => new RegExp(`^${pattern.source}$`).test(entry))
+  for (const socket of sockets) {
+    const socketPath = path.join(rootDir, socket)
+    if (await isSocketAlive(socketPath)) {
+      throw new Error(`Stop the dev server for ${from.name} first (listening on ${socket})`)
+    }
+    if (isDryRun()) {
+      recordStep({ kind: 'remove', path: toPlanPath(rootDir, socketPath) })
+      continue
+    }
+    await rm(socketPath, { force: true })
+  }
+}
+
+const renameBin = async (manifestPath: string, from: string, to: string) => {
+  const manifest = await readJson<WorkspaceManifest>(manifestPath)
+  const bin = manifest.bin as Record<string, string> | undefined
+  if (!bin || typeof bin !== 'object' || !(from in bin) || from === to) return
+  manifest.bin = Object.fromEntries(Object.entries(bin).map(([key, value]) => [key === from ? to : key, value]))
+  await writeJson(manifestPath, manifest)
+}
+
+type FileKind = 'manifest' | 'tsconfig' | 'source'
+
+interface ScopedFile {
+  filePath: string
+  kind: FileKind
+}
+
+type WorkspaceRef = Pick<Workspace, 'name' | 'relativeDir' | 'dir'>
+
+interface Rewrite {
+  file: ScopedFile
+  contents: string
+  changed: boolean
+}
+
+const SOURCE_FILE = /\.[cm]?[jt]sx?$/
+const TSCONFIG_FILE = /^tsconfig(\..+)?\.json$/
+
+/** Matches `value` at the start of an import specifier: `from '<value>'`, `import('<value>/x')`, `require('<value>')`. */
+const importPattern = (value: string) =>
+  new RegExp(`(\\b(?:from|import|require)\\s*\\(?\\s*['"])${escapeRegExp(value)}(?=['"/])`, 'g')
+
+const isBinary = (contents: Buffer) => contents.includes(0)
+
+const readText = async (filePath: string) => {
+  const contents = await readFile(filePath)
+  return isBinary(contents) ? undefined : contents.toString('utf8')
+}
+
+const listTsconfigs = async (dir: string) =>
+  (await readdir(dir)).filter((entry) => TSCONFIG_FILE.test(entry)).map((entry) => path.join(dir, entry))
+
+/**
+ * The files a rename may rewrite: the root and workspace manifests and tsconfigs, and the sources
+ * of the workspaces that depend on the renamed one. Docs and other files that merely mention the
+ * old name are left alone.
+ */
+const listScopedFiles = async (from: Pick<Workspace, 'name'>, rootDir: string) => {
+  const workspaces = await listWorkspaces(rootDir)
+  const files: ScopedFile[] = []
+  for (const dir of [rootDir, ...workspaces.map((workspace) => workspace.dir)]) {
+    const manifestPath = path.join(dir, 'package.json')
+    if (existsSync(manifestPath)) files.push({ filePath: manifestPath, kind: 'manifest' })
+    files.push(...(await listTsconfigs(dir)).map((filePath): ScopedFile => ({ filePath, kind: 'tsconfig' })))
+  }
+  const names = new Set([from.name])
+  for (const workspace of workspaces) {
+    if (listWorkspaceDependencies(workspace, names).length === 0) continue
+    const sources = (await walkFiles(workspace.dir)).filter((filePath) => SOURCE_FILE.test(filePath))
+    files.push(...sources.map((filePath): ScopedFile => ({ filePath, kind: 'source' })))
+  }
+  return files
+}
+
+/**
+ * How `file` may refer to a workspace: by name, by path from the root and, in a tsconfig outside
+ * it, by project reference path relative to the tsconfig (`../ui` from a sibling workspace).
+ */
+const referencesIn = ({ filePath, kind }: ScopedFile, workspace: WorkspaceRef) => {
+  const references = [workspace.name, workspace.relativeDir]
+  const relativePath = toPosix(path.relative(path.dirname(filePath), workspace.dir))
+  return kind === 'tsconfig' && relativePath !== '' ? [...references, relativePath] : references
+}
+
+const buildReplacements = (file: ScopedFile, from: WorkspaceRef, to: WorkspaceRef): Replacement[] => {
+  if (file.kind === 'source') return [[importPattern(from.name), `$1${to.name}`]]
+  const targets = referencesIn(file, to)
+  return referencesIn(file, from).map((reference, index) => [namePattern(reference), targets[index] ?? reference])
+}
+
+const planRewrites = async (files: ScopedFile[], from: WorkspaceRef, to: WorkspaceRef) => {
+  const rewrites: Rewrite[] = []
+  for (const file of files) {
+    const original = await readText(file.filePath)
+    if (original === undefined) continue
+    const contents = buildReplacements(file, from, to).reduce(
+      (text, [pattern, replacement]) => text.replace(pattern, replacement),
+      original,
+    )
+    rewrites.push({ changed: contents !== original, contents, file })
+  }
+  return rewrites
+}
+
+const mentions = (text: string, file: ScopedFile, from: WorkspaceRef) =>
+  referencesIn(file, from).some((reference) => new RegExp(namePattern(reference).source).test(text))
+
+/**
+ * Lists the manifests, tsconfigs and dependent sources that mention the old package name or path.
+ */
+export const findReferences = async (from: Pick<Workspace, 'name' | 'relativeDir'>, rootDir = ROOT_DIR) => {
+  const workspace = { ...from, dir: path.join(rootDir, from.relativeDir) }
+  const references: string[] = []
+  for (const file of await listScopedFiles(from, rootDir)) {
+    const text = await readText(file.filePath)
+    if (text !== undefined && mentions(text, file, workspace)) references.push(toPlanPath(rootDir, file.filePath))
+  }
+  return references.toSorted()
+}
+
+const resolveNewName = (from: Workspace, targetDir: string, rootDir: string) => {
+  const shortName = resolvePackageName(targetDir, rootDir)
+  const scope = from.name.startsWith('@') ? from.name.split('/')[0] : undefined
+  return scope ? `${scope}/${shortName}` : shortName
+}
+
+export const renameWorkspace = async (
+  from: Workspace,
+  targetDir: string,
+  options: RenameOptions,
+): Promise<RenameResult> => {
+  const rootDir = options.rootDir ?? ROOT_DIR
+  if (existsSync(targetDir)) {
+    throw new Error(`Target directory already exists: ${toPlanPath(rootDir, targetDir)}`)
+  }
+  const name = resolveNewName(from, targetDir, rootDir)
+  const target: WorkspaceRef = { dir: targetDir, name, relativeDir: toPosix(path.relative(rootDir, targetDir)) }
+
+  // Everything is rewritten in memory and checked before the first change on disk, so a
+  // reference that cannot be rewritten (ex: `require.resolve('@acme/ui')`) leaves the repo as it was.
+  const rewrites = await planRewrites(await listScopedFiles(from, rootDir), from, target)
+  const leftovers = rewrites.filter((rewrite) => mentions(rewrite.contents, rewrite.file, from))
+  if (leftovers.length > 0) {
+    const files = leftovers.map((rewrite) => toPlanPath(rootDir, rewrite.file.filePath)).toSorted()
+    throw new Error(`Cannot rename ${from.name}; these files would still reference it:\n${files.join('\n')}`)
+  }
+
+  await releaseControlSockets(from, rootDir)
+
+  // Snapshots are taken at the old paths: a failed rename first moves the directory back, then
+  // restores every file it rewrote.
+  const updates = rewrites.filter((candidate) => candidate.changed)
+  const manifestPath = path.join(from.dir, 'package.json')
+  let moved = false
+  const undo = async () => {
+    if (moved) await rename(targetDir, from.dir)
+  }
+  const files = [...new Set([manifestPath, ...updates.map((rewrite) => rewrite.file.filePath)])]
+
+  const changed = await withRollback(
+    targetDir,
+    async () => {
+      if (isDryRun()) {
+        recordStep({ from: from.relativeDir, kind: 'move', to: target.relativeDir })
+      } else {
+        await mkdir(path.dirname(targetDir), { recursive: true })
+        await rename(from.dir, targetDir)
+        moved = true
+      }
+
+      const written: string[] = []
+      for (const rewrite of updates) {
+        const relativeToWorkspace = path.relative(from.dir, rewrite.file.filePath)
+        const movedPath = relativeToWorkspace.startsWith('..')
+          ? rewrite.file.filePath
+          : path.join(targetDir, relativeToWorkspace)
+        const displayPath = toPlanPath(rootDir, movedPath)
+        if (isDryRun()) {
+          recordStep({ description: 'rewrite references', kind: 'write', path: displayPath })
+        } else {
+          await writeFile(movedPath, rewrite.contents, 'utf8')
+        }
+        written.push(displayPath)
+      }
+
+      if (!isDryRun()) {
+        await renameBin(path.join(targetDir, 'package.json'), shortNameOf(from.name), shortNameOf(name))
+      }
+      return written
+    },
+    { files, label: 'Rename', undo },
+  )
+
+  if (options.install) {
+    await runWorkspaceInstall()
+  }
+  return { changed, name, targetDir }
+}
+
+export const runRename = async (args: ParsedArgs) => {
+  const [query, nextName] = args.positional
+  if (!query || !nextName) {
+    throw new Error(USAGE)
+  }
+
+  const from = findWorkspace(await listWorkspaces(), query)
+  const defaultRoot = from.relativeDir.split('/')[0] as DefaultRoot
+  const targetDir = resolveTarget(nextName, defaultRoot)
+  const options: RenameOptions = { install: !args.flags.has('--no-install') }
+
+  if (!args.flags.has('--dry-run')) {
+    const { name, changed } = await renameWorkspace(from, targetDir, options)
+    console.log(`Renamed ${from.name} (${from.relativeDir}) to ${name} (${toPlanPath(ROOT_DIR, targetDir)})`)
+    console.log(`Updated ${changed.length} file(s)`)
+    return
+  }
+
+  const plan = startPlan()
+  let result: RenameResult
+  try {
+    result = await renameWorkspace(from, targetDir, options)
+  } finally {
+    stopPlan()
+  }
+  if (args.flags.has('--json')) {
+    console.log(JSON.stringify({ ...result, from: from.relativeDir, steps: plan.steps }, undefined, 2))
+    return
+  }
+  console.log(`Dry run: rename ${from.relativeDir} to ${toPlanPath(ROOT_DIR, targetDir)}`)
+  console.log(formatPlan(plan))
+}
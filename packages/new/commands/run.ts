@@ -0,0 +1,43 @@
+import { availableParallelism } from 'node:os'
+import type { ParsedArgs } from '../args'
+import { createTaskCache } from '../cache'
+import { buildGraph, topologicalLevels } from '../graph'
+import { formatSummary, runTasks } from '../runner'
+import { listWorkspaces } from '../workspaces'
+
+export const RUN_VALUE_FLAGS = ['--concurrency'] as const
+
+const USAGE = 'Usage: bun run new run <task> [--concurrency <n>] [--no-cache] [--dry-run]'
+
+export const resolveConcurrency = (value: string | undefined) => {
+  if (value === undefined) return availableParallelism()
+  const concurrency = Number(value)
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid --concurrency: ${value}`)
+  }
+  return concurrency
+}
+
+export const runRun = async (args: ParsedArgs) => {
+  const [task] = args.positional
+  if (!task) {
+    throw new Error(USAGE)
+  }
+
+  const graph = buildGraph(await listWorkspaces())
+  const concurrency = resolveConcurrency(args.values.get('--concurrency'))
+
+  if (args.flags.has('--dry-run')) {
+    topologicalLevels(graph).forEach((level, index) => {
+      console.log(`${String(index + 1).padStart(3)}. ${level.join(', ')}`)
+    })
+    return
+  }
+
+  const cache = args.flags.has('--no-cache') ? undefined : await createTaskCache(graph, task)
+  const results = await runTasks(graph, task, { cache, concurrency })
+  console.log(formatSummary(task, results))
+  if (results.some((result) => result.status === 'failed')) {
+    process.exitCode = 1
+  }
+}
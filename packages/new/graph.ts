@@ -0,0 +1,98 @@
+import { listWorkspaceDependencies, type Workspace } from './workspaces'
+
+export interface WorkspaceGraph {
+  workspaces: Map<string, Workspace>
+  /** Workspace name -> names of the workspaces it depends on. */
+  dependencies: Map<string, string[]>
+  /** Workspace name -> names of the workspaces that depend on it. */
+  dependents: Map<string, string[]>
+}
+
+export const buildGraph = (workspaces: Workspace[]): WorkspaceGraph => {
+  const names = new Set(workspaces.map((workspace) => workspace.name))
+  const dependencies = new Map(
+    workspaces.map((workspace) => [workspace.name, listWorkspaceDependencies(workspace, names)]),
+  )
+  const dependents = new Map(workspaces.map((workspace) => [workspace.name, [] as string[]]))
+  for (const [name, deps] of dependencies) {
+    for (const dependency of deps) dependents.get(dependency)?.push(name)
+  }
+  return {
+    dependencies,
+    dependents,
+    workspaces: new Map(workspaces.map((workspace) => [workspace.name, workspace])),
+  }
+}
+
+/**
+ * Returns the first dependency cycle found as a closed path (`a -> b -> a`), if any.
+ */
+export const findCycle = (graph: WorkspaceGraph) => {
+  const visited = new Set<string>()
+  const stack: string[] = []
+
+  const visit = (name: string): string[] | undefined => {
+    const index = stack.indexOf(name)
+    if (index !== -1) return [...stack.slice(index), name]
+    if (visited.has(name)) return undefined
+    visited.add(name)
+    stack.push(name)
+    for (const dependency of graph.dependencies.get(name) ?? []) {
+      const cycle = visit(dependency)
+      if (cycle) return cycle
+    }
+    stack.pop()
+    return undefined
+  }
+
+  for (const name of graph.workspaces.keys()) {
+    const cycle = visit(name)
+    if (cycle) return cycle
+  }
+  return undefined
+}
+
+export const assertAcyclic = (graph: WorkspaceGraph) => {
+  const cycle = findCycle(graph)
+  if (cycle) {
+    throw new Error(`Workspace dependency cycle: ${cycle.join(' -> ')}`)
+  }
+}
+
+/**
+ * Groups workspaces into levels: every workspace only depends on workspaces in earlier levels,
+ * so each level can run in parallel once the previous one is done.
+ */
+export const topologicalLevels = (graph: WorkspaceGraph) => {
+  assertAcyclic(graph)
+  const remaining = new Map([...graph.dependencies].map(([name, deps]) => [name, new Set(deps)]))
+  const levels: string[][] = []
+
+  while (remaining.size > 0) {
+    const level = [...remaining].filter(([, deps]) => deps.size === 0).map(([name]) => name)
+    for (const name of level) {
+      remaining.delete(name)
+      for (const dependent of graph.dependents.get(name) ?? []) remaining.get(dependent)?.delete(name)
+    }
+    levels.push(level)
+  }
+  return levels
+}
+
+/**
+ * Restricts the graph to `names`, keeping only the edges between them.
+ */
+export const subgraph = (graph: WorkspaceGraph, names: Iterable<string>): WorkspaceGraph => {
+  const keep = new Set(names)
+  const filter = (map: Map<string, string[]>) =>
+    new Map(
+      [...map]
+        .filter(([name]) => keep.has(name))
+        .map(([name, related]) => [name, related.filter((other) => keep.has(other))]),
+    )
+  return {
+    dependencies: filter(graph.dependencies),
+    dependents: filter(graph.dependents),
+    workspaces: new Map([...graph.workspaces].filter(([name]) => keep.has(name))),
+  }
+}
@@ -1,55 +1,147 @@
 #!/usr/bin/env bun
-import { metadata as cliMeta, scaffoldCli } from './scaffolders/cli'
-import { metadata as libMeta, scaffoldLib } from './scaffolders/lib'
-import { metadata as uiMeta, scaffoldUi } from './scaffolders/ui'
-import { resolveTarget, type AppType } from './scaffolders/utils'
-import { metadata as webMeta, scaffoldWeb } from './scaffolders/web'
+import { parseArgs, type ParsedArgs } from './args'
+import { AFFECTED_VALUE_FLAGS, runAffected } from './commands/affected'
+import { runInfo, runList } from './commands/list'
+import { runRemove } from './commands/remove'
+import { runRename } from './commands/rename'
+import { RUN_VALUE_FLAGS, runRun } from './commands/run'
+import { formatPlan, startPlan, stopPlan } from './scaffolders/plan'
+import { assertDryRunSupported, loadScaffolders, type Scaffolder } from './scaffolders/registry'
+import { withRollback } from './scaffolders/rollback'
+import { resolveTarget, type AppType, type ScaffoldOptions } from './scaffolders/utils'
+import { canPrompt, runWizard } from './wizard'
 
-const USAGE = `
+const formatUsage = (scaffolders: Map<AppType, Scaffolder>) => {
+  const width = Math.max(...[...scaffolders.keys()].map((type) => type.length))
+  const types = [...scaffolders.values()]
+    .map(({ type, metadata }) => `  ${type.padEnd(width)}  ${metadata.description}`)
+    .join('\n')
+  return `
 Usage:
-  bun run new <type> [name] [--no-install]
+  bun run new                          (interactive, requires a TTY)
+  bun run new <type> [name] [options]
+  bun run new list [--json]
+  bun run new info <name|path> [--json]
+  bun run new remove <name|path> [--yes] [--no-install] [--dry-run [--json]]
+  bun run new rename <old> <new> [--no-install] [--dry-run [--json]]
+  bun run new run <task> [--concurrency <n>] [--no-cache] [--dry-run]   (build/test/typecheck in dependency order)
+  bun run new affected [--base <ref>] [--run lint:check,typecheck,test] [--json]
+
+Options:
+  --no-install              Skip bun install at the repo root
+  --no-tests                Leave out the template's tests/
+  --tailwind|--no-tailwind  Override the template's Tailwind default
+  --scope <scope>           Package scope (default: root package name)
+  --description <text>      package.json description
+  --version <version>       package.json version (default: root version or template)
+  --license <license>       package.json license (default: root license)
+  --author <author>         package.json author (default: root author)
+  --private|--public        package.json private flag
+  --dry-run [--json]        Print the plan without touching disk
+  --keep-on-failure         Leave partial output in place when a step fails
 
 Types:
-  web   Creates a Bun React + Tailwind app in apps/<name>
-  cli   Creates a CLI package in packages/<name>
-  lib   Creates a library package in packages/<name>
-  ui    Creates a Tailwind UI library in packages/<name> (via bun create)
+${types}
 `.trim()
+}
 
-const main = async () => {
-  const args = process.argv.slice(2)
-  const [typeArg, ...rest] = args
+interface Command {
+  handler: (args: ParsedArgs) => Promise<void>
+  valueFlags?: readonly string[]
+}
+
+const COMMANDS: Record<string, Command> = {
+  affected: { handler: runAffected, valueFlags: AFFECTED_VALUE_FLAGS },
+  info: { handler: runInfo },
+  list: { handler: runList },
+  remove: { handler: runRemove },
+  rename: { handler: runRename },
+  run: { handler: runRun, valueFlags: RUN_VALUE_FLAGS },
+}
+
+const VALUE_FLAGS = ['--scope', '--description', '--version', '--license', '--author'] as const
+
+const resolveToggle = (flags: Set<string>, on: string, off: string) => {
+  if (flags.has(off)) return false
+  if (flags.has(on)) return true
+  return undefined
+}
+
+const resolveFieldOptions = ({ flags, values }: ParsedArgs) => ({
+  author: values.get('--author'),
+  description: values.get('--description'),
+  license: values.get('--license'),
+  private: resolveToggle(flags, '--private', '--public'),
+  scope: values.get('--scope'),
+  version: values.get('--version'),
+})
+
+const resolveRequest = async (args: ParsedArgs, scaffolders: Map<AppType, Scaffolder>) => {
+  const [typeArg, nameArg = typeArg] = args.positional
   if (!typeArg) {
-    console.log(USAGE)
-    process.exit(1)
+    if (!canPrompt()) {
+      console.log(formatUsage(scaffolders))
+      process.exit(1)
+    }
+    const answers = await runWizard(scaffolders)
+    return {
+      type: answers.type,
+      targetDir: answers.targetDir,
+      options: { ...resolveFieldOptions(args), install: answers.install, tailwind: answers.tailwind },
+    }
   }
 
-  if (!['web', 'cli', 'lib', 'ui'].includes(typeArg)) {
-    throw new Error(`Unsupported type: ${typeArg}`)
+  const scaffolder = scaffolders.get(typeArg)
+  if (!scaffolder) {
+    throw new Error(`Unsupported type: ${typeArg} (available: ${[...scaffolders.keys()].join(', ')})`)
   }
 
-  const type = typeArg as AppType
-  const nameArg = rest.find((arg) => !arg.startsWith('-')) ?? type
-  const metadata: Record<AppType, { defaultRoot: 'apps' | 'packages' }> = {
-    web: webMeta,
-    cli: cliMeta,
-    lib: libMeta,
-    ui: uiMeta,
+  const type = typeArg
+  const targetDir = resolveTarget(nameArg ?? type, scaffolder.metadata.defaultRoot)
+  const options: ScaffoldOptions = {
+    ...resolveFieldOptions(args),
+    install: !args.flags.has('--no-install'),
+    tailwind: resolveToggle(args.flags, '--tailwind', '--no-tailwind'),
+    tests: !args.flags.has('--no-tests'),
   }
+  return { type, targetDir, options }
+}
 
-  const targetDir = resolveTarget(nameArg, metadata[type].defaultRoot)
-  const install = !rest.includes('--no-install')
-  const options = { install }
-  const handlers: Record<AppType, (dir: string, options: { install: boolean }) => Promise<void>> = {
-    web: scaffoldWeb,
-    cli: scaffoldCli,
-    lib: scaffoldLib,
-    ui: scaffoldUi,
+const main = async () => {
+  const [commandName = '', ...rest] = process.argv.slice(2)
+  const command = COMMANDS[commandName]
+  if (command) {
+    await command.handler(parseArgs(rest, command.valueFlags))
+    return
   }
 
-  await handlers[type](targetDir, options)
+  const args = parseArgs(process.argv.slice(2), VALUE_FLAGS)
+  const scaffolders = await loadScaffolders()
+  const { type, targetDir, options } = await resolveRequest(args, scaffolders)
+  const { scaffold } = scaffolders.get(type) as Scaffolder
 
-  console.log(`Created ${type} app at ${targetDir}`)
+  if (!args.flags.has('--dry-run')) {
+    await withRollback(targetDir, () => scaffold(targetDir, options), {
+      keepOnFailure: args.flags.has('--keep-on-failure'),
+    })
+    console.log(`Created ${type} app at ${targetDir}`)
+    return
+  }
+
+  assertDryRunSupported(scaffolders.get(type) as Scaffolder)
+  const plan = startPlan()
+  try {
+    await scaffold(targetDir, { ...options, dryRun: true })
+  } finally {
+    stopPlan()
+  }
+
+  if (args.flags.has('--json')) {
+    console.log(JSON.stringify({ type, targetDir, options, steps: plan.steps }, undefined, 2))
+    return
+  }
+  console.log(`Dry run: ${type} app at ${targetDir}`)
+  console.log(formatPlan(plan))
 }
 
 main().catch((error) => {
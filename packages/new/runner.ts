@@ -0,0 +1,174 @@
+import {
+  readCacheEntry,
+  resolveCommand,
+  restoreOutputs,
+  writeCacheEntry,
+  type OutputLine,
+  type OutputStream,
+  type TaskCache,
+} from './cache'
+import { topologicalLevels, type WorkspaceGraph } from './graph'
+import type { Workspace } from './workspaces'
+
+export type TaskStatus = 'success' | 'failed' | 'skipped' | 'missing'
+
+export interface TaskResult {
+  name: string
+  status: TaskStatus
+  durationMs: number
+  exitCode?: number
+  /** The output was replayed from the task cache instead of running the command. */
+  cached?: boolean
+}
+
+export interface RunTasksOptions {
+  concurrency: number
+  /** Receives every line a task prints, already prefixed with the workspace name. */
+  write?: (line: string, stream: OutputStream) => void
+  /** Replays successful runs whose inputs have not changed; see `createTaskCache`. */
+  cache?: TaskCache
+}
+
+type Emit = (line: string, stream: OutputStream) => void
+
+const defaultWrite = (line: string, stream: OutputStream) => {
+  const target = stream === 'stderr' ? process.stderr : process.stdout
+  target.write(`${line}\n`)
+}
+
+const pipeLines = async (stream: ReadableStream<Uint8Array>, onLine: (line: string) => void) => {
+  const decoder = new TextDecoder()
+  let buffer = ''
+  for await (const chunk of stream) {
+    buffer += decoder.decode(chunk, { stream: true })
+    const lines = buffer.split(/\r?\n/)
+    buffer = lines.pop() ?? ''
+    for (const line of lines) onLine(line)
+  }
+  buffer += decoder.decode()
+  if (buffer) onLine(buffer)
+}
+
+const hasScript = (workspace: Workspace, task: string) => typeof resolveCommand(workspace, task) === 'string'
+
+const runTask = async (workspace: Workspace, task: string, emit: Emit) => {
+  const startedAt = performance.now()
+  const proc = Bun.spawn(['bun', 'run', task], {
+    cwd: workspace.dir,
+    env: process.env,
+    stderr: 'pipe',
+    stdin: 'ignore',
+    stdout: 'pipe',
+  })
+  await Promise.all([
+    pipeLines(proc.stdout, (line) => emit(line, 'stdout')),
+    pipeLines(proc.stderr, (line) => emit(line, 'stderr')),
+  ])
+  const exitCode = await proc.exited
+  return {
+    durationMs: Math.round(performance.now() - startedAt),
+    exitCode,
+    name: workspace.name,
+    status: exitCode === 0 ? 'success' : 'failed',
+  } satisfies TaskResult
+}
+
+const runCachedTask = async (workspace: Workspace, task: string, cache: TaskCache | undefined, emit: Emit) => {
+  const entry = cache ? await readCacheEntry(cache, workspace.name) : undefined
+  if (cache && entry) {
+    emit('cache hit, replaying output', 'stdout')
+    for (const { line, stream } of entry.output) emit(line, stream)
+    await restoreOutputs(cache, workspace, entry)
+    return { cached: true, durationMs: 0, exitCode: 0, name: workspace.name, status: 'success' } satisfies TaskResult
+  }
+
+  const output: OutputLine[] = []
+  const result = await runTask(workspace, task, (line, stream) => {
+    output.push({ line, stream })
+    emit(line, stream)
+  })
+  if (cache && result.status === 'success') {
+    await writeCacheEntry(cache, workspace, task, output)
+  }
+  return result
+}
+
+/**
+ * Runs `bun run <task>` in every workspace of the graph, starting each one as soon as the
+ * workspaces it depends on have finished. Workspaces without the script count as done; a
+ * failure skips everything that depends on it.
+ */
+export const runTasks = async (graph: WorkspaceGraph, task: string, options: RunTasksOptions) => {
+  const concurrency = Math.max(1, options.concurrency)
+  const width = Math.max(0, ...[...graph.workspaces.keys()].map((name) => name.length))
+  const results = new Map<string, TaskResult>()
+  const pending = new Set(topologicalLevels(graph).flat())
+  const running = new Map<string, Promise<void>>()
+
+  const settle = (result: TaskResult) => {
+    results.set(result.name, result)
+    pending.delete(result.name)
+  }
+
+  const startReady = () => {
+    for (const name of pending) {
+      if (running.has(name)) continue
+      const deps = graph.dependencies.get(name) ?? []
+      const blocked = deps.some((dep) => {
+        const status = results.get(dep)?.status
+        return status === 'failed' || status === 'skipped'
+      })
+      if (blocked) {
+        settle({ durationMs: 0, name, status: 'skipped' })
+        continue
+      }
+      if (!deps.every((dep) => results.has(dep)) || running.size >= concurrency) continue
+
+      const workspace = graph.workspaces.get(name) as Workspace
+      if (!hasScript(workspace, task)) {
+        settle({ durationMs: 0, name, status: 'missing' })
+        continue
+      }
+      const prefix = `[${name.padEnd(width)}]`
+      const emit: Emit = (line, stream) => (options.write ?? defaultWrite)(`${prefix} ${line}`, stream)
+      running.set(
+        name,
+        runCachedTask(workspace, task, options.cache, emit).then((result) => {
+          running.delete(name)
+          settle(result)
+        }),
+      )
+    }
+  }
+
+  // Settling a workspace without the script can unblock (or skip) others, so repeat until stable.
+  const drain = () => {
+    let before = -1
+    while (before !== pending.size) {
+      before = pending.size
+      startReady()
+    }
+  }
+
+  drain()
+  while (running.size > 0) {
+    await Promise.race(running.values())
+    drain()
+  }
+
+  return [...graph.workspaces.keys()].map((name) => results.get(name) as TaskResult)
+}
+
+export const formatSummary = (task: string, results: TaskResult[]) => {
+  const count = (status: TaskStatus) => results.filter((result) => result.status === status)
+  const failed = count('failed').map((result) => result.name)
+  const skipped = count('skipped').map((result) => result.name)
+  const succeeded = count('success')
+  const cached = succeeded.filter((result) => result.cached).length
+  const lines = [
+    `${task}: ${succeeded.length} succeeded${cached > 0 ? ` (${cached} cached)` : ''}, ${failed.length} failed, ${skipped.length} skipped`,
+  ]
+  if (failed.length > 0) lines.push(`  failed: ${failed.join(', ')}`)
+  if (skipped.length > 0) lines.push(`  skipped (dependency failed): ${skipped.join(', ')}`)
+  return lines.join('\n')
+}
@@ -1,24 +1,30 @@
-import path from 'node:path'
 import {
+  applyTemplate,
   ensureTargetDir,
-  ensureTemplates,
-  run,
+  resolvePackageFields,
+  resolveTemplateVars,
   runQaInit,
   runWorkspaceInstall,
-  ROOT_DIR,
-  updatePackageName,
+  type ScaffoldOptions,
+  type ScaffolderMetadata,
+  updatePackageManifest,
 } from './utils'
 
-export const metadata = {
+export const metadata: ScaffolderMetadata = {
   defaultRoot: 'packages',
-} as const
+  description: 'Creates a CLI package in packages/<name>',
+  dryRun: true,
+  tailwind: false,
+}
 
-export const scaffoldCli = async (targetDir: string, options: { install: boolean }) => {
+export const scaffoldCli = async (targetDir: string, options: ScaffoldOptions) => {
+  const tailwind = options.tailwind ?? metadata.tailwind
+  const fields = await resolvePackageFields(options)
+  const vars = await resolveTemplateVars(targetDir, { ...fields, tailwind, tests: options.tests ?? true })
   await ensureTargetDir(targetDir)
-  ensureTemplates()
-  await run('bun', ['create', 'cli', path.relative(ROOT_DIR, targetDir), '--no-install', '--no-git'], ROOT_DIR)
-  await runQaInit(targetDir, 'cli', false)
-  await updatePackageName(targetDir)
+  await applyTemplate('cli', targetDir, vars)
+  await runQaInit(targetDir, 'cli', tailwind)
+  await updatePackageManifest(targetDir, fields)
   if (options.install) {
     await runWorkspaceInstall()
   }
@@ -1,24 +1,30 @@
-import path from 'node:path'
 import {
+  applyTemplate,
   ensureTargetDir,
-  ensureTemplates,
-  run,
+  resolvePackageFields,
+  resolveTemplateVars,
   runQaInit,
   runWorkspaceInstall,
-  ROOT_DIR,
-  updatePackageName,
+  type ScaffoldOptions,
+  type ScaffolderMetadata,
+  updatePackageManifest,
 } from './utils'
 
-export const metadata = {
+export const metadata: ScaffolderMetadata = {
   defaultRoot: 'packages',
-} as const
+  description: 'Creates a library package in packages/<name>',
+  dryRun: true,
+  tailwind: false,
+}
 
-export const scaffoldLib = async (targetDir: string, options: { install: boolean }) => {
+export const scaffoldLib = async (targetDir: string, options: ScaffoldOptions) => {
+  const tailwind = options.tailwind ?? metadata.tailwind
+  const fields = await resolvePackageFields(options)
+  const vars = await resolveTemplateVars(targetDir, { ...fields, tailwind, tests: options.tests ?? true })
   await ensureTargetDir(targetDir)
-  ensureTemplates()
-  await run('bun', ['create', 'lib', path.relative(ROOT_DIR, targetDir), '--no-install', '--no-git'], ROOT_DIR)
-  await runQaInit(targetDir, 'lib', false)
-  await updatePackageName(targetDir)
+  await applyTemplate('lib', targetDir, vars)
+  await runQaInit(targetDir, 'lib', tailwind)
+  await updatePackageManifest(targetDir, fields)
   if (options.install) {
     await runWorkspaceInstall()
   }
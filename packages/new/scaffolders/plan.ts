@@ -0,0 +1,73 @@
+import path from 'node:path'
+
+export type PlanStep =
+  | { kind: 'mkdir'; path: string }
+  | { kind: 'write'; path: string; description: string }
+  | { kind: 'copy'; from: string; to: string }
+  | { kind: 'move'; from: string; to: string }
+  | { kind: 'remove'; path: string }
+  | { kind: 'run'; command: string; args: string[]; cwd: string }
+  | { kind: 'package-json'; path: string; changes: Record<string, unknown> }
+
+export interface Plan {
+  steps: PlanStep[]
+}
+
+let activePlan: Plan | undefined = undefined
+
+/**
+ * Switches the scaffolder helpers into dry-run mode: every helper in `./utils`
+ * records what it would do into the returned plan instead of touching disk.
+ */
+export const startPlan = (): Plan => {
+  activePlan = { steps: [] }
+  return activePlan
+}
+
+export const stopPlan = () => {
+  activePlan = undefined
+}
+
+export const isDryRun = () => activePlan !== undefined
+
+export const recordStep = (step: PlanStep) => {
+  activePlan?.steps.push(step)
+}
+
+export const toPlanPath = (rootDir: string, filePath: string) =>
+  path.relative(rootDir, filePath).replace(/\\/g, '/') || '.'
+
+const formatStep = (step: PlanStep) => {
+  switch (step.kind) {
+    case 'mkdir': {
+      return `mkdir         ${step.path}`
+    }
+    case 'write': {
+      return `write         ${step.path} (${step.description})`
+    }
+    case 'copy': {
+      return `copy          ${step.from} -> ${step.to}`
+    }
+    case 'move': {
+      return `move          ${step.from} -> ${step.to}`
+    }
+    case 'remove': {
+      return `remove        ${step.path}`
+    }
+    case 'run': {
+      return `run           ${[step.command, ...step.args].join(' ')} (cwd: ${step.cwd})`
+    }
+    case 'package-json': {
+      const changes = Object.entries(step.changes)
+        .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+        .join(' ')
+      return `package.json  ${step.path} ${changes}`
+    }
+    default: {
+      return ''
+    }
+  }
+}
+
+export const formatPlan = (plan: Plan) =>
+  plan.steps.map((step, index) => `${String(index + 1).padStart(3)}. ${formatStep(step)}`).join('\n')
@@ -0,0 +1,122 @@
+import { readdir, readFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { metadata as cliMeta, scaffoldCli } from './cli'
+import { metadata as libMeta, scaffoldLib } from './lib'
+import { metadata as uiMeta, scaffoldUi } from './ui'
+import { ROOT_DIR, type AppType, type ScaffoldOptions, type ScaffolderMetadata } from './utils'
+import { metadata as webMeta, scaffoldWeb } from './web'
+
+export type ScaffoldHandler = (targetDir: string, options: ScaffoldOptions) => Promise<void>
+
+/**
+ * Shape of a scaffolder module. Drop one into `<root>/scaffolders/<type>.ts` or list it
+ * under `"new": { "scaffolders": [...] }` in the root package.json.
+ */
+export interface ScaffolderModule {
+  metadata: Partial<ScaffolderMetadata> & Pick<ScaffolderMetadata, 'defaultRoot'> & { type?: string }
+  scaffold: ScaffoldHandler
+}
+
+export interface Scaffolder {
+  type: AppType
+  metadata: ScaffolderMetadata
+  scaffold: ScaffoldHandler
+  source: string
+}
+
+const BUILTINS: Scaffolder[] = [
+  { metadata: webMeta, scaffold: scaffoldWeb, source: 'builtin', type: 'web' },
+  { metadata: cliMeta, scaffold: scaffoldCli, source: 'builtin', type: 'cli' },
+  { metadata: libMeta, scaffold: scaffoldLib, source: 'builtin', type: 'lib' },
+  { metadata: uiMeta, scaffold: scaffoldUi, source: 'builtin', type: 'ui' },
+]
+
+const PLUGIN_DIR = 'scaffolders'
+/** Subcommands of `bun run new`; a scaffolder with one of these types could never be reached. */
+const RESERVED_TYPES = new Set(['affected', 'info', 'list', 'remove', 'rename', 'run'])
+const PLUGIN_EXTENSIONS = new Set(['.ts', '.js', '.mjs'])
+
+const readConfiguredPlugins = async (rootDir: string) => {
+  const pkgPath = path.join(rootDir, 'package.json')
+  if (!existsSync(pkgPath)) return []
+  const pkg = JSON.parse(await readFile(pkgPath, 'utf8')) as { new?: { scaffolders?: unknown } }
+  const configured = pkg.new?.scaffolders
+  if (configured === undefined) return []
+  if (!Array.isArray(configured) || configured.some((entry) => typeof entry !== 'string')) {
+    throw new Error('"new.scaffolders" in package.json must be an array of module paths')
+  }
+  return (configured as string[]).map((entry) => path.resolve(rootDir, entry))
+}
+
+const readPluginDir = async (rootDir: string) => {
+  const dir = path.join(rootDir, PLUGIN_DIR)
+  if (!existsSync(dir)) return []
+  const entries = await readdir(dir, { withFileTypes: true })
+  return entries
+    .filter((entry) => entry.isFile() && PLUGIN_EXTENSIONS.has(path.extname(entry.name)))
+    .filter((entry) => !entry.name.endsWith('.d.ts') && !entry.name.includes('.test.'))
+    .map((entry) => path.join(dir, entry.name))
+    .toSorted()
+}
+
+const toScaffolder = (modulePath: string, mod: Partial<ScaffolderModule>, rootDir: string): Scaffolder => {
+  const source = path.relative(rootDir, modulePath)
+  const { metadata, scaffold } = mod
+  if (typeof scaffold !== 'function') {
+    throw new Error(`Scaffolder ${source} must export a scaffold function`)
+  }
+  if (!metadata || (metadata.defaultRoot !== 'apps' && metadata.defaultRoot !== 'packages')) {
+    throw new Error(`Scaffolder ${source} must export metadata.defaultRoot ("apps" or "packages")`)
+  }
+  const type = metadata.type ?? path.basename(modulePath, path.extname(modulePath))
+  if (!/^[a-z][a-z0-9-]*$/.test(type)) {
+    throw new Error(`Scaffolder ${source} has an invalid type: ${type}`)
+  }
+  if (RESERVED_TYPES.has(type)) {
+    throw new Error(`Scaffolder ${source} uses the reserved type: ${type}`)
+  }
+  return {
+    metadata: {
+      defaultRoot: metadata.defaultRoot,
+      description: metadata.description ?? `Creates a ${type} workspace in ${metadata.defaultRoot}/<name>`,
+      dryRun: metadata.dryRun ?? false,
+      tailwind: metadata.tailwind ?? false,
+    },
+    scaffold,
+    source,
+    type,
+  }
+}
+
+/** `--dry-run` must never run a scaffolder for real, so it only accepts ones that declare `metadata.dryRun`. */
+export const assertDryRunSupported = (scaffolder: Scaffolder) => {
+  if (!scaffolder.metadata.dryRun) {
+    throw new Error(
+      `Scaffolder "${scaffolder.type}" from ${scaffolder.source} does not support --dry-run (set metadata.dryRun once it honours options.dryRun)`,
+    )
+  }
+}
+
+export const loadScaffolders = async (rootDir = ROOT_DIR) => {
+  const registry = new Map<AppType, Scaffolder>(BUILTINS.map((scaffolder) => [scaffolder.type, scaffolder]))
+  const modulePaths = [...(await readPluginDir(rootDir)), ...(await readConfiguredPlugins(rootDir))]
+
+  for (const modulePath of new Set(modulePaths)) {
+    if (!existsSync(modulePath)) {
+      throw new Error(`Scaffolder module not found: ${path.relative(rootDir, modulePath)}`)
+    }
+    const mod = (await import(pathToFileURL(modulePath).href)) as Partial<ScaffolderModule>
+    const scaffolder = toScaffolder(modulePath, mod, rootDir)
+    const existing = registry.get(scaffolder.type)
+    if (existing) {
+      throw new Error(
+        `Scaffolder type "${scaffolder.type}" from ${scaffolder.source} is already provided by ${existing.source}`,
+      )
+    }
+    registry.set(scaffolder.type, scaffolder)
+  }
+
+  return registry
+}
@@ -0,0 +1,105 @@
+import { readdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import path from 'node:path'
+import { ROOT_DIR } from './utils'
+
+interface FileSnapshot {
+  path: string
+  contents: string | undefined
+}
+
+export interface Transaction {
+  targetDir: string
+  createdDir: string | undefined
+  ownsTargetDir: boolean
+  files: FileSnapshot[]
+  undo?: () => Promise<void>
+}
+
+export interface RollbackOptions {
+  keepOnFailure?: boolean
+  files?: string[]
+  /** Runs first on rollback, for changes a file snapshot cannot revert (ex: moving a directory back). */
+  undo?: () => Promise<void>
+  /** Names the operation in the failure message. */
+  label?: string
+}
+
+const DEFAULT_TRACKED_FILES = [path.join(ROOT_DIR, 'package.json'), path.join(ROOT_DIR, 'bun.lock')]
+
+const findFirstMissingDir = (targetDir: string) => {
+  let missing: string | undefined = undefined
+  let current = targetDir
+  while (!existsSync(current)) {
+    missing = current
+    const parent = path.dirname(current)
+    if (parent === current) break
+    current = parent
+  }
+  return missing
+}
+
+const snapshotFile = async (filePath: string): Promise<FileSnapshot> => ({
+  contents: existsSync(filePath) ? await readFile(filePath, 'utf8') : undefined,
+  path: filePath,
+})
+
+const isEmptyDir = async (dir: string) => !existsSync(dir) || (await readdir(dir)).length === 0
+
+export const beginTransaction = async (targetDir: string, files = DEFAULT_TRACKED_FILES): Promise<Transaction> => ({
+  createdDir: findFirstMissingDir(targetDir),
+  files: await Promise.all(files.map(snapshotFile)),
+  // A non-empty target is rejected by ensureEmptyDir, and its contents are not ours to remove.
+  ownsTargetDir: await isEmptyDir(targetDir),
+  targetDir,
+})
+
+const emptyDir = async (dir: string) => {
+  if (!existsSync(dir)) return
+  const entries = await readdir(dir)
+  await Promise.all(entries.map((entry) => rm(path.join(dir, entry), { recursive: true, force: true })))
+}
+
+const restoreFile = async ({ path: filePath, contents }: FileSnapshot) => {
+  if (contents === undefined) {
+    await rm(filePath, { force: true })
+    return
+  }
+  const current = existsSync(filePath) ? await readFile(filePath, 'utf8') : undefined
+  if (current !== contents) {
+    await writeFile(filePath, contents, 'utf8')
+  }
+}
+
+export const rollbackTransaction = async (transaction: Transaction) => {
+  await transaction.undo?.()
+  if (transaction.createdDir) {
+    await rm(transaction.createdDir, { recursive: true, force: true })
+  } else if (transaction.ownsTargetDir) {
+    await emptyDir(transaction.targetDir)
+  }
+  for (const file of transaction.files) {
+    await restoreFile(file)
+  }
+}
+
+export const withRollback = async <TResult>(
+  targetDir: string,
+  task: () => Promise<TResult>,
+  options: RollbackOptions = {},
+) => {
+  const transaction = { ...(await beginTransaction(targetDir, options.files)), undo: options.undo }
+  const label = options.label ?? 'Scaffold'
+  try {
+    return await task()
+  } catch (error) {
+    const relative = path.relative(ROOT_DIR, targetDir)
+    if (options.keepOnFailure) {
+      console.error(`${label} failed; leaving ${relative} in place (--keep-on-failure).`)
+    } else {
+      await rollbackTransaction(transaction)
+      console.error(`${label} failed; rolled back ${relative}.`)
+    }
+    throw error
+  }
+}
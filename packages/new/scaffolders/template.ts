@@ -0,0 +1,126 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import path from 'node:path'
+import { isDryRun, recordStep, toPlanPath } from './plan'
+
+export type TemplateVars = Record<string, string | boolean>
+
+/**
+ * Optional `template.json` at the root of a template directory. Each condition maps a
+ * relative file or directory to the variable that has to be truthy for it to be rendered
+ * (prefix the variable with `!` to negate it).
+ */
+interface TemplateManifest {
+  conditions?: Record<string, string>
+}
+
+export interface RenderTemplateDirOptions {
+  rootDir: string
+  only?: string[]
+}
+
+const MANIFEST_FILE = 'template.json'
+const RENAMED_FILES: Record<string, string> = {
+  gitignore: '.gitignore',
+  npmignore: '.npmignore',
+}
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z_]\w*)\s*\}\}/g
+const STANDALONE_TAG = /^[ \t]*(\{\{(?:#(?:if|unless)\s+!?\w+|else|\/(?:if|unless))\}\})[ \t]*\r?\n/gm
+const INNERMOST_BLOCK = /\{\{#(if|unless)\s+(!?)(\w+)\}\}((?:(?!\{\{#(?:if|unless)\s)[\s\S])*?)\{\{\/\1\}\}/
+
+const isTruthy = (vars: TemplateVars, name: string) => {
+  const value = vars[name]
+  return value === true || (typeof value === 'string' && value.length > 0)
+}
+
+const renderBlocks = (input: string, vars: TemplateVars) => {
+  let output = input.replace(STANDALONE_TAG, '$1')
+  let match = INNERMOST_BLOCK.exec(output)
+  while (match) {
+    const [block, keyword, negate, name = '', body = ''] = match
+    const [whenTrue = '', whenFalse = ''] = body.split('{{else}}')
+    const condition = (isTruthy(vars, name) !== (keyword === 'unless')) !== Boolean(negate)
+    output = `${output.slice(0, match.index)}${condition ? whenTrue : whenFalse}${output.slice(match.index + block.length)}`
+    match = INNERMOST_BLOCK.exec(output)
+  }
+  return output
+}
+
+/**
+ * Renders `{{name}}` placeholders and `{{#if name}}…{{else}}…{{/if}}` / `{{#unless name}}`
+ * blocks. Unknown placeholders are left untouched so JSX like `style={{ color }}` survives.
+ */
+export const renderTemplate = (input: string, vars: TemplateVars) =>
+  renderBlocks(input, vars).replace(PLACEHOLDER, (placeholder, name: string) =>
+    Object.hasOwn(vars, name) ? String(vars[name]) : placeholder,
+  )
+
+export const renderTemplatePath = (relativePath: string, vars: TemplateVars) =>
+  relativePath
+    .split('/')
+    .map((segment) => RENAMED_FILES[segment] ?? renderTemplate(segment, vars))
+    .join('/')
+
+const readManifest = async (templateDir: string): Promise<TemplateManifest> => {
+  const manifestPath = path.join(templateDir, MANIFEST_FILE)
+  if (!existsSync(manifestPath)) return {}
+  return JSON.parse(await readFile(manifestPath, 'utf8')) as TemplateManifest
+}
+
+const isWithin = (relativePath: string, prefix: string) =>
+  relativePath === prefix || relativePath.startsWith(`${prefix.replace(/\/$/, '')}/`)
+
+const isIncluded = (relativePath: string, manifest: TemplateManifest, vars: TemplateVars) =>
+  Object.entries(manifest.conditions ?? {}).every(([prefix, condition]) => {
+    if (!isWithin(relativePath, prefix)) return true
+    const negate = condition.startsWith('!')
+    return isTruthy(vars, negate ? condition.slice(1) : condition) !== negate
+  })
+
+const listFiles = async (dir: string, base = ''): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true })
+  const files: string[] = []
+  for (const entry of entries) {
+    const relativePath = base ? `${base}/${entry.name}` : entry.name
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(path.join(dir, entry.name), relativePath)))
+    } else if (entry.isFile() && relativePath !== MANIFEST_FILE) {
+      files.push(relativePath)
+    }
+  }
+  return files.toSorted()
+}
+
+const isBinary = (contents: Buffer) => contents.includes(0)
+
+export const renderTemplateDir = async (
+  templateDir: string,
+  targetDir: string,
+  vars: TemplateVars,
+  options: RenderTemplateDirOptions,
+) => {
+  const manifest = await readManifest(templateDir)
+  const files = await listFiles(templateDir)
+  const { rootDir } = options
+
+  for (const relativePath of files) {
+    if (options.only && !options.only.some((prefix) => isWithin(relativePath, prefix))) continue
+    if (!isIncluded(relativePath, manifest, vars)) continue
+
+    const sourcePath = path.join(templateDir, relativePath)
+    const targetPath = path.join(targetDir, renderTemplatePath(relativePath, vars))
+    if (isDryRun()) {
+      recordStep({
+        description: `template ${toPlanPath(rootDir, sourcePath)}`,
+        kind: 'write',
+        path: toPlanPath(rootDir, targetPath),
+      })
+      continue
+    }
+
+    const contents = await readFile(sourcePath)
+    await mkdir(path.dirname(targetPath), { recursive: true })
+    await writeFile(targetPath, isBinary(contents) ? contents : renderTemplate(contents.toString('utf8'), vars))
+  }
+}
@@ -1,24 +1,30 @@
-import path from 'node:path'
 import {
+  applyTemplate,
   ensureTargetDir,
-  ensureTemplates,
-  run,
+  resolvePackageFields,
+  resolveTemplateVars,
   runQaInit,
   runWorkspaceInstall,
-  ROOT_DIR,
-  updatePackageName,
+  type ScaffoldOptions,
+  type ScaffolderMetadata,
+  updatePackageManifest,
 } from './utils'
 
-export const metadata = {
+export const metadata: ScaffolderMetadata = {
   defaultRoot: 'packages',
-} as const
+  description: 'Creates a Tailwind UI library in packages/<name>',
+  dryRun: true,
+  tailwind: true,
+}
 
-export const scaffoldUi = async (targetDir: string, options: { install: boolean }) => {
+export const scaffoldUi = async (targetDir: string, options: ScaffoldOptions) => {
+  const tailwind = options.tailwind ?? metadata.tailwind
+  const fields = await resolvePackageFields(options)
+  const vars = await resolveTemplateVars(targetDir, { ...fields, tailwind, tests: options.tests ?? true })
   await ensureTargetDir(targetDir)
-  ensureTemplates()
-  await run('bun', ['create', 'ui', path.relative(ROOT_DIR, targetDir), '--no-install', '--no-git'], ROOT_DIR)
-  await runQaInit(targetDir, 'lib', true)
-  await updatePackageName(targetDir)
+  await applyTemplate('ui', targetDir, vars)
+  await runQaInit(targetDir, 'lib', tailwind)
+  await updatePackageManifest(targetDir, fields)
   if (options.install) {
     await runWorkspaceInstall()
   }
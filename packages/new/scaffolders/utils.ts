@@ -1,15 +1,46 @@
-import { copyFile, mkdir, readdir, readFile, writeFile } from 'node:fs/promises'
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises'
 import { existsSync } from 'node:fs'
 import path from 'node:path'
+import { isDryRun, recordStep, toPlanPath } from './plan'
+import { renderTemplate, renderTemplateDir, type TemplateVars } from './template'
 
-export type AppType = 'web' | 'cli' | 'lib' | 'ui'
+export type AppType = string
 export type DefaultRoot = 'apps' | 'packages'
 
+export interface ScaffolderMetadata {
+  defaultRoot: DefaultRoot
+  description: string
+  tailwind: boolean
+  /** Whether `scaffold` honours `options.dryRun`; `--dry-run` refuses scaffolders that do not. */
+  dryRun: boolean
+}
+
+export interface PackageFields {
+  scope?: string
+  description?: string
+  version?: string
+  license?: string
+  author?: string
+  private?: boolean
+}
+
+export interface ScaffoldOptions extends PackageFields {
+  install: boolean
+  tailwind?: boolean
+  tests?: boolean
+  /** Set by `--dry-run`: record steps with the helpers below (or `recordStep`) instead of touching disk. */
+  dryRun?: boolean
+}
+
 export const ROOT_DIR = path.resolve(import.meta.dir, '../../..')
-export const BUN_CREATE_DIR = path.join(ROOT_DIR, '.bun-create')
-const WEB_TEMPLATE_DIR = path.join(ROOT_DIR, 'packages', 'new', 'templates', 'web')
+export const TEMPLATES_DIR = path.join(ROOT_DIR, 'packages', 'new', 'templates')
+const WEB_TEMPLATE_DIR = path.join(TEMPLATES_DIR, 'web')
 
 export const run = async (command: string, args: string[], cwd: string) => {
+  if (isDryRun()) {
+    recordStep({ args, command, cwd: toPlanPath(ROOT_DIR, cwd), kind: 'run' })
+    return
+  }
   const proc = Bun.spawn([command, ...args], {
     cwd,
     stdin: 'inherit',
@@ -40,7 +71,7 @@ export const resolveTarget = (name: string, defaultRoot: DefaultRoot) => {
   return resolved
 }
 
-export const updateWebAppContent = async (targetDir: string) => {
+export const updateWebAppContent = async (targetDir: string, vars: TemplateVars) => {
   const candidates = [
     path.join(targetDir, 'src', 'App.tsx'),
     path.join(targetDir, 'src', 'App.jsx'),
@@ -49,55 +80,39 @@ export const updateWebAppContent = async (targetDir: string) => {
   ]
 
   const appFile = candidates.find((candidate) => existsSync(candidate))
+  const templateFile = path.join(WEB_TEMPLATE_DIR, 'src', 'App.tsx')
+  if (isDryRun()) {
+    recordStep({
+      description: `template ${toPlanPath(ROOT_DIR, templateFile)}`,
+      kind: 'write',
+      path: toPlanPath(ROOT_DIR, appFile ?? path.join(targetDir, 'src', 'App.tsx')),
+    })
+    return
+  }
   if (!appFile) {
     throw new Error('Unable to locate App component to update.')
   }
 
-  const contents = `export default function App() {
-  return (
-    <main className="min-h-screen bg-white text-slate-900">
-      <div className="mx-auto max-w-3xl px-6 py-20">
-        <h1 className="text-3xl font-semibold">Welcome</h1>
-        <p className="mt-4 text-base text-slate-600">
-          This is a fresh Bun + React + Tailwind app. Build something great.
-        </p>
-      </div>
-    </main>
-  );
-}
-`
-
+  const contents = renderTemplate(await readFile(templateFile, 'utf8'), vars)
   await writeFile(appFile, contents, 'utf8')
 }
 
-const copyTemplateDir = async (sourceDir: string, targetDir: string) => {
-  await mkdir(targetDir, { recursive: true })
-  const entries = await readdir(sourceDir, { withFileTypes: true })
-  for (const entry of entries) {
-    const sourcePath = path.join(sourceDir, entry.name)
-    const targetPath = path.join(targetDir, entry.name)
-    if (entry.isDirectory()) {
-      await copyTemplateDir(sourcePath, targetPath)
-      continue
-    }
-    if (entry.isFile()) {
-      await copyFile(sourcePath, targetPath)
-    }
+export const applyTemplate = async (template: string, targetDir: string, vars: TemplateVars) => {
+  const templateDir = path.join(TEMPLATES_DIR, template)
+  if (!existsSync(templateDir)) {
+    throw new Error(`Missing template: ${toPlanPath(ROOT_DIR, templateDir)}`)
   }
+  await renderTemplateDir(templateDir, targetDir, vars, { rootDir: ROOT_DIR })
 }
 
-export const applyWebTemplateTests = async (targetDir: string) => {
-  const sourceTests = path.join(WEB_TEMPLATE_DIR, 'tests')
-  if (!existsSync(sourceTests)) return
-  const targetTests = path.join(targetDir, 'tests')
-  await copyTemplateDir(sourceTests, targetTests)
+export const applyWebTemplateTests = async (targetDir: string, vars: TemplateVars) => {
+  await renderTemplateDir(WEB_TEMPLATE_DIR, targetDir, vars, { only: ['tests'], rootDir: ROOT_DIR })
 }
 
+// Tailwind is always passed explicitly: qa:init would otherwise turn it on for every web app.
 export const runQaInit = async (targetDir: string, kind: 'web' | 'cli' | 'lib', tailwind: boolean) => {
   const args = ['run', '--cwd', path.join(ROOT_DIR, 'packages', 'qa'), 'qa:init', '--dir', targetDir, '--kind', kind]
-  if (tailwind) {
-    args.push('--tailwind')
-  }
+  args.push(tailwind ? '--tailwind' : '--no-tailwind')
   await run('bun', args, ROOT_DIR)
 }
 
@@ -107,52 +122,119 @@ export const runWorkspaceInstall = async () => {
 
 export const ensureTargetDir = async (targetDir: string) => {
   await ensureEmptyDir(targetDir)
-  if (!existsSync(targetDir)) {
-    await mkdir(targetDir, { recursive: true })
-  }
-}
-
-export const ensureTemplates = () => {
-  if (!existsSync(BUN_CREATE_DIR)) {
-    throw new Error(
-      'Missing .bun-create directory at repo root. Run bun install or bun run -w @bun-monorepo-template/new postinstall.',
-    )
+  if (existsSync(targetDir)) return
+  if (isDryRun()) {
+    recordStep({ kind: 'mkdir', path: toPlanPath(ROOT_DIR, targetDir) })
+    return
   }
+  await mkdir(targetDir, { recursive: true })
 }
 
-const readJson = async <TData>(filePath: string): Promise<TData> => {
+export const readJson = async <TData>(filePath: string): Promise<TData> => {
   const contents = await readFile(filePath, 'utf8')
   return JSON.parse(contents) as TData
 }
 
-const writeJson = async (filePath: string, data: unknown) => {
+export const writeJson = async (filePath: string, data: unknown) => {
   const contents = `${JSON.stringify(data, undefined, 2)}\n`
   await writeFile(filePath, contents, 'utf8')
 }
 
-const resolveProjectName = async () => {
+const readRootPackage = async () => {
   const pkgPath = path.join(ROOT_DIR, 'package.json')
-  if (!existsSync(pkgPath)) {
-    return 'project'
+  if (!existsSync(pkgPath)) return {}
+  return await readJson<Record<string, unknown>>(pkgPath)
+}
+
+const normalizeScope = (scope: string) => {
+  const cleaned = scope.replace(/^@/, '').replace(/\/.*$/, '')
+  if (!/^[a-z0-9][a-z0-9._-]*$/.test(cleaned)) {
+    throw new Error(`Invalid scope: ${scope}`)
   }
-  const pkg = await readJson<{ name?: string }>(pkgPath)
-  const raw = pkg.name ?? 'project'
+  return cleaned
+}
+
+const resolveProjectName = async (scope?: string) => {
+  if (scope) return normalizeScope(scope)
+  const pkg = await readRootPackage()
+  const raw = typeof pkg.name === 'string' ? pkg.name : 'project'
   const withoutScope = raw.startsWith('@') ? (raw.split('/').pop() ?? raw) : raw
   return withoutScope
 }
 
-const resolvePackageName = (targetDir: string) => {
-  const relative = path.relative(ROOT_DIR, targetDir).replace(/\\/g, '/')
+const formatAuthor = (value: unknown) => {
+  if (typeof value === 'string') return value
+  if (!value || typeof value !== 'object') return undefined
+  const { name, email, url } = value as { name?: string; email?: string; url?: string }
+  if (!name) return undefined
+  return [name, email && `<${email}>`, url && `(${url})`].filter(Boolean).join(' ')
+}
+
+/**
+ * Fields written into the generated package.json. Explicit flags win; license, author and
+ * version fall back to the root package.json, anything else keeps the template's value.
+ */
+export const resolvePackageFields = async (options: PackageFields): Promise<PackageFields> => {
+  const root = await readRootPackage()
+  return {
+    author: options.author ?? formatAuthor(root.author),
+    description: options.description,
+    license: options.license ?? (typeof root.license === 'string' ? root.license : undefined),
+    private: options.private,
+    scope: await resolveProjectName(options.scope),
+    version: options.version ?? (typeof root.version === 'string' ? root.version : undefined),
+  }
+}
+
+/**
+ * Unscoped package name for a workspace directory: `packages/ui` -> `ui`, `apps/admin/web` -> `admin-web`.
+ */
+export const resolvePackageName = (targetDir: string, rootDir = ROOT_DIR) => {
+  const relative = path.relative(rootDir, targetDir).replace(/\\/g, '/')
   const cleaned = relative.replace(/^(apps|packages)\//, '')
   return cleaned.split('/').filter(Boolean).join('-')
 }
 
-export const updatePackageName = async (targetDir: string) => {
+export const resolveTemplateVars = async (
+  targetDir: string,
+  { tailwind, tests, ...fields }: PackageFields & { tailwind: boolean; tests: boolean },
+): Promise<TemplateVars> => {
+  const scope = await resolveProjectName(fields.scope)
+  const name = resolvePackageName(targetDir)
+  return {
+    description: fields.description ?? '',
+    name,
+    packageName: `@${scope}/${name}`,
+    scope,
+    tailwind,
+    tests,
+  }
+}
+
+const MANIFEST_KEYS = ['name', 'version', 'description', 'private', 'license', 'author'] as const
+
+export const updatePackageManifest = async (targetDir: string, fields: PackageFields) => {
   const pkgPath = path.join(targetDir, 'package.json')
+  const scope = await resolveProjectName(fields.scope)
+  const changes: Record<string, unknown> = Object.fromEntries(
+    Object.entries({
+      author: fields.author,
+      description: fields.description,
+      license: fields.license,
+      name: `@${scope}/${resolvePackageName(targetDir)}`,
+      private: fields.private,
+      version: fields.version,
+    }).filter(([, value]) => value !== undefined),
+  )
+  if (isDryRun()) {
+    recordStep({ changes, kind: 'package-json', path: toPlanPath(ROOT_DIR, pkgPath) })
+    return
+  }
   if (!existsSync(pkgPath)) return
-  const pkg = await readJson<Record<string, unknown>>(pkgPath)
-  const projectName = await resolveProjectName()
-  const packageName = resolvePackageName(targetDir)
-  pkg.name = `@${projectName}/${packageName}`
-  await writeJson(pkgPath, pkg)
+  const pkg = { ...(await readJson<Record<string, unknown>>(pkgPath)), ...changes }
+  const ordered: Record<string, unknown> = {}
+  for (const key of MANIFEST_KEYS) {
+    if (pkg[key] !== undefined) ordered[key] = pkg[key]
+  }
+  await writeJson(pkgPath, { ...ordered, ...pkg })
 }
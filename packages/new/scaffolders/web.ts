@@ -1,32 +1,41 @@
 import path from 'node:path'
 import {
+  applyTemplate,
   ensureTargetDir,
-  ensureTemplates,
   ROOT_DIR,
   run,
   applyWebTemplateTests,
+  resolvePackageFields,
+  resolveTemplateVars,
   runQaInit,
-  updatePackageName,
+  type ScaffoldOptions,
+  type ScaffolderMetadata,
+  updatePackageManifest,
   runWorkspaceInstall,
   updateWebAppContent,
 } from './utils'
 
-export const metadata = {
+export const metadata: ScaffolderMetadata = {
   defaultRoot: 'apps',
-} as const
+  description: 'Creates a Bun React + Tailwind app in apps/<name>',
+  dryRun: true,
+  tailwind: true,
+}
 
-export const scaffoldWeb = async (targetDir: string, options: { install: boolean }) => {
+export const scaffoldWeb = async (targetDir: string, options: ScaffoldOptions) => {
+  const tailwind = options.tailwind ?? metadata.tailwind
+  const fields = await resolvePackageFields(options)
+  const vars = await resolveTemplateVars(targetDir, { ...fields, tailwind, tests: options.tests ?? true })
   await ensureTargetDir(targetDir)
   if (process.env.BUN_NEW_WEB_TEMPLATE === '1') {
-    ensureTemplates()
-    await run('bun', ['create', 'web', path.relative(ROOT_DIR, targetDir), '--no-install', '--no-git'], ROOT_DIR)
+    await applyTemplate('web', targetDir, vars)
   } else {
-    await run('bun', ['init', '--react=tailwind'], targetDir)
+    await run('bun', ['init', tailwind ? '--react=tailwind' : '--react'], targetDir)
+    await updateWebAppContent(targetDir, vars)
+    await applyWebTemplateTests(targetDir, vars)
   }
-  await updateWebAppContent(targetDir)
-  await applyWebTemplateTests(targetDir)
-  await runQaInit(targetDir, 'web', true)
-  await updatePackageName(targetDir)
+  await runQaInit(targetDir, 'web', tailwind)
+  await updatePackageManifest(targetDir, fields)
   await run(
     'bun',
     ['run', 'packages/new/scripts/web-postinstall.ts', '--dir', path.relative(ROOT_DIR, targetDir)],
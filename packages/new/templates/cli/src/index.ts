@@ -3,7 +3,7 @@
 const args = process.argv.slice(2)
 
 if (args.includes('--help') || args.includes('-h')) {
-  console.log('Usage: cli [options]')
+  console.log('Usage: {{name}} [options]')
   process.exit(0)
 }
 
@@ -22,7 +22,7 @@ describe('cli', () => {
     const { exitCode, stdout, stderr } = await runCli(['--help'])
     expect(exitCode).toBe(0)
     expect(stderr).toBe('')
-    expect(stdout).toContain('Usage: cli')
+    expect(stdout).toContain('Usage: {{name}}')
   })
 
   it('prints default message', async () => {
@@ -2,6 +2,7 @@ import './index.css'
 
 export function App() {
   return (
+{{#if tailwind}}
     <main className="min-h-screen bg-white text-slate-900">
       <div className="mx-auto max-w-3xl px-6 py-20">
         <h1 className="text-3xl font-semibold">Welcome</h1>
@@ -10,6 +11,12 @@ export function App() {
         </p>
       </div>
     </main>
+{{else}}
+    <main>
+      <h1>Welcome</h1>
+      <p>This is a fresh Bun + React app. Build something great.</p>
+    </main>
+{{/if}}
   )
 }
 
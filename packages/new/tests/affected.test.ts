@@ -0,0 +1,59 @@
+import { mkdir, rm, writeFile } from 'node:fs/promises'
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
+import { resolveAffected } from '../commands/affected'
+import { buildGraph, type WorkspaceGraph } from '../graph'
+import { listWorkspaces } from '../workspaces'
+
+const ROOT_DIR = path.resolve(import.meta.dir, '../../..')
+
+const writePackage = async (dir: string, manifest: Record<string, unknown>) => {
+  await mkdir(dir, { recursive: true })
+  await writeFile(path.join(dir, 'package.json'), JSON.stringify(manifest), 'utf8')
+}
+
+describe('@bun-monorepo-template/new affected', () => {
+  const tmpRoot = path.join(ROOT_DIR, '.tmp', `@bun-monorepo-template/new-affected-${randomUUID()}`)
+  let graph: WorkspaceGraph
+
+  beforeAll(async () => {
+    await writePackage(tmpRoot, { workspaces: ['apps/*', 'packages/*'] })
+    await writePackage(path.join(tmpRoot, 'packages', 'core'), { name: '@acme/core' })
+    await writePackage(path.join(tmpRoot, 'packages', 'ui'), {
+      dependencies: { '@acme/core': 'workspace:*' },
+      name: '@acme/ui',
+    })
+    await writePackage(path.join(tmpRoot, 'apps', 'web'), {
+      dependencies: { '@acme/ui': 'workspace:*' },
+      name: '@acme/web',
+    })
+    await writePackage(path.join(tmpRoot, 'apps', 'docs'), { name: '@acme/docs' })
+    graph = buildGraph(await listWorkspaces(tmpRoot))
+  })
+
+  afterAll(async () => {
+    await rm(tmpRoot, { force: true, recursive: true })
+  })
+
+  it('expands changed workspaces through their dependents', () => {
+    expect(resolveAffected(graph, ['packages/ui/src/button.tsx', 'packages/ui/README.md'])).toEqual([
+      {
+        name: '@acme/ui',
+        path: 'packages/ui',
+        reason: { files: ['packages/ui/src/button.tsx', 'packages/ui/README.md'], kind: 'changed' },
+      },
+      { name: '@acme/web', path: 'apps/web', reason: { kind: 'dependency', via: '@acme/ui' } },
+    ])
+  })
+
+  it('ignores docs at the root and treats other root files as global', () => {
+    expect(resolveAffected(graph, ['README.md', 'apps/docs/index.md']).map(({ name }) => name)).toEqual(['@acme/docs'])
+    expect(resolveAffected(graph, ['bun.lock']).map(({ name }) => name)).toEqual([
+      '@acme/docs',
+      '@acme/core',
+      '@acme/ui',
+      '@acme/web',
+    ])
+  })
+})
@@ -0,0 +1,94 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { createTaskCache } from '../cache'
+import { buildGraph } from '../graph'
+import { runTasks } from '../runner'
+import { listWorkspaces } from '../workspaces'
+
+const ROOT_DIR = path.resolve(import.meta.dir, '../../..')
+
+const writeFileDeep = async (filePath: string, contents: string) => {
+  await mkdir(path.dirname(filePath), { recursive: true })
+  await writeFile(filePath, contents, 'utf8')
+}
+
+describe('@bun-monorepo-template/new task cache', () => {
+  let tmpRoot = ''
+  let cacheDir = ''
+
+  const run = async (task: string) => {
+    const graph = buildGraph(await listWorkspaces(tmpRoot))
+    const cache = await createTaskCache(graph, task, cacheDir, tmpRoot)
+    const lines: string[] = []
+    const results = await runTasks(graph, task, { cache, concurrency: 1, write: (line) => lines.push(line) })
+    return { lines, results }
+  }
+  const build = () => run('build')
+
+  beforeEach(async () => {
+    tmpRoot = path.join(ROOT_DIR, '.tmp', `@bun-monorepo-template/new-cache-${randomUUID()}`)
+    cacheDir = path.join(tmpRoot, '.cache', 'tasks')
+    await writeFileDeep(path.join(tmpRoot, 'package.json'), JSON.stringify({ workspaces: ['packages/*'] }))
+    await writeFileDeep(
+      path.join(tmpRoot, 'packages', 'core', 'package.json'),
+      JSON.stringify({
+        name: '@acme/core',
+        scripts: { build: 'mkdir -p dist && cp src/index.ts dist/index.js && echo built', typecheck: 'echo checked' },
+      }),
+    )
+    await writeFileDeep(path.join(tmpRoot, 'packages', 'core', 'src', 'index.ts'), 'export const one = 1\n')
+    await writeFileDeep(
+      path.join(tmpRoot, 'packages', 'ui', 'package.json'),
+      JSON.stringify({
+        dependencies: { '@acme/core': 'workspace:*' },
+        name: '@acme/ui',
+        scripts: { build: 'echo ui' },
+      }),
+    )
+  })
+
+  afterEach(async () => {
+    await rm(tmpRoot, { force: true, recursive: true })
+  })
+
+  it('replays output and restores dist on a hit', async () => {
+    const first = await build()
+    expect(first.results.map((result) => result.cached ?? false)).toEqual([false, false])
+
+    await rm(path.join(tmpRoot, 'packages', 'core', 'dist'), { force: true, recursive: true })
+    const second = await build()
+
+    expect(second.results.map((result) => result.cached)).toEqual([true, true])
+    expect(second.lines).toContain('[@acme/core] cache hit, replaying output')
+    expect(second.lines).toContain('[@acme/core] built')
+    expect(await readFile(path.join(tmpRoot, 'packages', 'core', 'dist', 'index.js'), 'utf8')).toBe(
+      'export const one = 1\n',
+    )
+  })
+
+  it('invalidates a workspace and its dependents when sources change', async () => {
+    await build()
+    await writeFile(path.join(tmpRoot, 'packages', 'core', 'src', 'index.ts'), 'export const one = 2\n', 'utf8')
+
+    const { results } = await build()
+
+    expect(results.map((result) => [result.name, result.cached ?? false])).toEqual([
+      ['@acme/core', false],
+      ['@acme/ui', false],
+    ])
+  })
+
+  it('only stores and restores the outputs of tasks that produce them', async () => {
+    const distFile = path.join(tmpRoot, 'packages', 'core', 'dist', 'index.js')
+    await build()
+    await run('typecheck')
+    await writeFile(distFile, 'export const one = 2\n', 'utf8')
+
+    const { results } = await run('typecheck')
+
+    expect(results.find((result) => result.name === '@acme/core')?.cached).toBe(true)
+    expect(await readFile(distFile, 'utf8')).toBe('export const one = 2\n')
+  })
+})
@@ -0,0 +1,97 @@
+import { existsSync } from 'node:fs'
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { describe, expect, it } from 'bun:test'
+import { formatPlan, type Plan } from '../scaffolders/plan'
+
+const ROOT_DIR = path.resolve(import.meta.dir, '../../..')
+const ENTRY = path.resolve(import.meta.dir, '..', 'index.ts')
+
+const runNew = async (args: string[]) => {
+  const proc = Bun.spawn(['bun', ENTRY, ...args], {
+    cwd: ROOT_DIR,
+    env: { ...process.env, BUN_NEW_WEB_TEMPLATE: undefined },
+    stdout: 'pipe',
+    stderr: 'pipe',
+  })
+  const exitCode = await proc.exited
+  const stdout = await new Response(proc.stdout).text()
+  const stderr = await new Response(proc.stderr).text()
+  if (exitCode !== 0) {
+    throw new Error(stderr || `bun ${args.join(' ')} failed with code ${exitCode}`)
+  }
+  return stdout
+}
+
+describe('@bun-monorepo-template/new --dry-run', () => {
+  it('records the web scaffold without touching disk', async () => {
+    const name = `dry-run-${randomUUID()}`
+    const output = await runNew(['web', name, '--dry-run', '--json'])
+    const plan = JSON.parse(output) as Plan & { targetDir: string }
+
+    expect(existsSync(plan.targetDir)).toBeFalse()
+    expect(plan.steps[0]).toEqual({ kind: 'mkdir', path: `apps/${name}` })
+    expect(plan.steps).toContainEqual({
+      args: ['init', '--react=tailwind'],
+      command: 'bun',
+      cwd: `apps/${name}`,
+      kind: 'run',
+    })
+    expect(plan.steps).toContainEqual({
+      changes: { name: `@bun-monorepo-template/${name}` },
+      kind: 'package-json',
+      path: `apps/${name}/package.json`,
+    })
+    expect(plan.steps.at(-1)).toEqual({ args: ['install'], command: 'bun', cwd: '.', kind: 'run' })
+  })
+
+  it('passes --no-tailwind through to bun init and qa:init', async () => {
+    const name = `dry-run-${randomUUID()}`
+    const output = await runNew(['web', name, '--no-tailwind', '--dry-run', '--json'])
+    const plan = JSON.parse(output) as Plan
+    const runArgs = plan.steps.flatMap((step) => (step.kind === 'run' ? [step.args] : []))
+
+    expect(runArgs).toContainEqual(['init', '--react'])
+    expect(runArgs.find((args) => args.includes('qa:init'))).toContain('--no-tailwind')
+  })
+
+  it('applies package metadata flags to the manifest step', async () => {
+    const name = `dry-run-${randomUUID()}`
+    const output = await runNew([
+      'lib',
+      name,
+      '--dry-run',
+      '--json',
+      '--scope',
+      '@acme',
+      '--description=Date helpers',
+      '--license',
+      'Apache-2.0',
+      '--public',
+    ])
+    const plan = JSON.parse(output) as Plan
+
+    expect(plan.steps).toContainEqual({
+      changes: expect.objectContaining({
+        description: 'Date helpers',
+        license: 'Apache-2.0',
+        name: `@acme/${name}`,
+        private: false,
+      }),
+      kind: 'package-json',
+      path: `packages/${name}/package.json`,
+    })
+  })
+
+  it('prints a numbered plan', () => {
+    const plan: Plan = {
+      steps: [
+        { kind: 'mkdir', path: 'packages/demo' },
+        { args: ['install'], command: 'bun', cwd: '.', kind: 'run' },
+      ],
+    }
+    expect(formatPlan(plan)).toBe(
+      ['  1. mkdir         packages/demo', '  2. run           bun install (cwd: .)'].join('\n'),
+    )
+  })
+})
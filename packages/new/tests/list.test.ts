@@ -0,0 +1,90 @@
+import { mkdir, rm, writeFile } from 'node:fs/promises'
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
+import { describeWorkspaces, formatInfo, formatTable, type WorkspaceSummary } from '../commands/list'
+
+const ROOT_DIR = path.resolve(import.meta.dir, '../../..')
+
+const writeFileDeep = async (filePath: string, contents: string) => {
+  await mkdir(path.dirname(filePath), { recursive: true })
+  await writeFile(filePath, contents, 'utf8')
+}
+
+const QA_WIRING = {
+  devDependencies: { '@bun-monorepo-template/qa': 'workspace:*' },
+  scripts: { format: 'prettier', lint: 'oxlint', typecheck: 'tsc' },
+}
+
+describe('@bun-monorepo-template/new list', () => {
+  const tmpRoot = path.join(ROOT_DIR, '.tmp', `@bun-monorepo-template/new-list-${randomUUID()}`)
+
+  beforeAll(async () => {
+    await writeFileDeep(path.join(tmpRoot, 'package.json'), JSON.stringify({ workspaces: ['apps/*', 'packages/*'] }))
+    await writeFileDeep(
+      path.join(tmpRoot, 'apps', 'web', 'package.json'),
+      JSON.stringify({
+        dependencies: { '@acme/core': 'workspace:*', react: '^19.0.0', tailwindcss: '^4.0.0' },
+        name: '@acme/web',
+        ...QA_WIRING,
+      }),
+    )
+    await writeFileDeep(path.join(tmpRoot, 'apps', 'web', 'src', 'App.test.tsx'), '')
+    await writeFileDeep(
+      path.join(tmpRoot, 'packages', 'core', 'package.json'),
+      JSON.stringify({ name: '@acme/core', peerDependencies: { zod: '^3.0.0' } }),
+    )
+    await writeFileDeep(path.join(tmpRoot, 'packages', 'core', 'bunup.config.ts'), '')
+  })
+
+  afterAll(async () => {
+    await rm(tmpRoot, { force: true, recursive: true })
+  })
+
+  it('describes each workspace', async () => {
+    expect(await describeWorkspaces(tmpRoot)).toEqual([
+      {
+        bunup: false,
+        dependencies: ['@acme/core'],
+        dependents: [],
+        kind: 'web',
+        name: '@acme/web',
+        path: 'apps/web',
+        qa: true,
+        tailwind: true,
+        tests: true,
+      },
+      {
+        bunup: true,
+        dependencies: [],
+        dependents: ['@acme/web'],
+        kind: 'lib',
+        name: '@acme/core',
+        path: 'packages/core',
+        qa: false,
+        tailwind: false,
+        tests: false,
+      },
+    ])
+  })
+
+  it('formats an aligned table', async () => {
+    const [header, web, core] = formatTable(await describeWorkspaces(tmpRoot)).split('\n')
+    expect(header).toBe('NAME        PATH           KIND  TESTS  TAILWIND  QA   BUNUP  DEPENDS ON')
+    expect(web).toBe('@acme/web   apps/web       web   yes    yes       yes  no     @acme/core')
+    expect(core).toBe('@acme/core  packages/core  lib   no     no        no   yes    -')
+  })
+
+  it('reports an invalid qa block without failing the other workspaces', async () => {
+    const root = path.join(tmpRoot, 'invalid')
+    await writeFileDeep(path.join(root, 'package.json'), JSON.stringify({ workspaces: ['packages/*'] }))
+    await writeFileDeep(path.join(root, 'packages', 'bad', 'package.json'), '{"name": "bad", "qa": {"kind": "app"}}')
+    await writeFileDeep(path.join(root, 'packages', 'good', 'package.json'), '{"name": "good"}')
+
+    const [bad, good] = await describeWorkspaces(root)
+
+    expect(bad).toMatchObject({ error: 'Invalid "qa.kind" in package.json (expected web|cli|lib)', kind: 'invalid' })
+    expect(good).toMatchObject({ kind: 'lib', name: 'good' })
+    expect(formatInfo(bad as WorkspaceSummary)).toContain('Kind        invalid (Invalid "qa.kind" in package.json')
+  })
+})
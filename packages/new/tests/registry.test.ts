@@ -0,0 +1,89 @@
+import { mkdir, rm, writeFile } from 'node:fs/promises'
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { assertDryRunSupported, loadScaffolders, type Scaffolder } from '../scaffolders/registry'
+
+const ROOT_DIR = path.resolve(import.meta.dir, '../../..')
+
+const pluginSource = (metadata: Record<string, unknown>) => `
+export const metadata = ${JSON.stringify(metadata)}
+export const scaffold = async () => {}
+`
+
+describe('@bun-monorepo-template/new scaffolder registry', () => {
+  let tmpRoot = ''
+
+  beforeEach(async () => {
+    tmpRoot = path.join(ROOT_DIR, '.tmp', `@bun-monorepo-template/new-registry-${randomUUID()}`)
+    await mkdir(path.join(tmpRoot, 'scaffolders'), { recursive: true })
+    await writeFile(path.join(tmpRoot, 'package.json'), '{}\n', 'utf8')
+  })
+
+  afterEach(async () => {
+    await rm(tmpRoot, { recursive: true, force: true })
+  })
+
+  it('includes the built-in scaffolders', async () => {
+    const registry = await loadScaffolders(tmpRoot)
+    expect([...registry.keys()]).toEqual(['web', 'cli', 'lib', 'ui'])
+    expect(registry.get('web')?.metadata.defaultRoot).toBe('apps')
+  })
+
+  it('discovers modules from the scaffolders directory and package.json', async () => {
+    await writeFile(
+      path.join(tmpRoot, 'scaffolders', 'worker.ts'),
+      pluginSource({ defaultRoot: 'apps', description: 'Creates a worker' }),
+      'utf8',
+    )
+    await mkdir(path.join(tmpRoot, 'tools'), { recursive: true })
+    await writeFile(
+      path.join(tmpRoot, 'tools', 'docs-scaffolder.ts'),
+      pluginSource({ defaultRoot: 'packages', type: 'docs' }),
+      'utf8',
+    )
+    await writeFile(
+      path.join(tmpRoot, 'package.json'),
+      JSON.stringify({ new: { scaffolders: ['./tools/docs-scaffolder.ts'] } }),
+      'utf8',
+    )
+
+    const registry = await loadScaffolders(tmpRoot)
+
+    expect(registry.get('worker')?.metadata).toEqual({
+      defaultRoot: 'apps',
+      description: 'Creates a worker',
+      dryRun: false,
+      tailwind: false,
+    })
+    expect(registry.get('worker')?.source).toBe(path.join('scaffolders', 'worker.ts'))
+    expect(registry.get('docs')?.metadata.defaultRoot).toBe('packages')
+  })
+
+  it('only allows --dry-run for scaffolders that declare support', async () => {
+    await writeFile(path.join(tmpRoot, 'scaffolders', 'worker.ts'), pluginSource({ defaultRoot: 'apps' }), 'utf8')
+    await writeFile(
+      path.join(tmpRoot, 'scaffolders', 'docs.ts'),
+      pluginSource({ defaultRoot: 'packages', dryRun: true }),
+      'utf8',
+    )
+
+    const registry = await loadScaffolders(tmpRoot)
+
+    expect(() => assertDryRunSupported(registry.get('worker') as Scaffolder)).toThrow(
+      'Scaffolder "worker" from scaffolders/worker.ts does not support --dry-run',
+    )
+    expect(() => assertDryRunSupported(registry.get('docs') as Scaffolder)).not.toThrow()
+    expect(() => assertDryRunSupported(registry.get('web') as Scaffolder)).not.toThrow()
+  })
+
+  it('rejects modules that shadow another type', async () => {
+    await writeFile(path.join(tmpRoot, 'scaffolders', 'web.ts'), pluginSource({ defaultRoot: 'apps' }), 'utf8')
+    await expect(loadScaffolders(tmpRoot)).rejects.toThrow('already provided by builtin')
+  })
+
+  it('rejects modules without a scaffold function', async () => {
+    await writeFile(path.join(tmpRoot, 'scaffolders', 'api.ts'), 'export const metadata = {}\n', 'utf8')
+    await expect(loadScaffolders(tmpRoot)).rejects.toThrow('must export a scaffold function')
+  })
+})
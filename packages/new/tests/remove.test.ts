@@ -0,0 +1,100 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { removeWorkspace } from '../commands/remove'
+import { startPlan, stopPlan } from '../scaffolders/plan'
+import { findWorkspace, listWorkspaces } from '../workspaces'
+
+const ROOT_DIR = path.resolve(import.meta.dir, '../../..')
+
+const writeJsonFile = async (filePath: string, data: unknown) => {
+  await mkdir(path.dirname(filePath), { recursive: true })
+  await writeFile(filePath, `${JSON.stringify(data, undefined, 2)}\n`, 'utf8')
+}
+
+describe('@bun-monorepo-template/new remove', () => {
+  let tmpRoot = ''
+
+  beforeEach(async () => {
+    tmpRoot = path.join(ROOT_DIR, '.tmp', `@bun-monorepo-template/new-remove-${randomUUID()}`)
+    await writeJsonFile(path.join(tmpRoot, 'package.json'), {
+      devDependencies: { '@acme/ui': 'workspace:*' },
+      workspaces: ['apps/*', 'packages/*'],
+    })
+    await writeJsonFile(path.join(tmpRoot, 'packages', 'ui', 'package.json'), { name: '@acme/ui' })
+    await writeJsonFile(path.join(tmpRoot, 'packages', 'cli', 'package.json'), {
+      dependencies: { '@acme/core': 'workspace:*', '@acme/ui': 'workspace:*' },
+      name: '@acme/cli',
+    })
+    await writeJsonFile(path.join(tmpRoot, 'apps', 'web', 'package.json'), {
+      dependencies: { '@acme/ui': 'workspace:*', react: '^19.0.0' },
+      name: '@acme/web',
+    })
+    await mkdir(path.join(tmpRoot, 'apps', 'web', 'src'), { recursive: true })
+    await writeFile(
+      path.join(tmpRoot, 'apps', 'web', 'src', 'index.ts'),
+      "import { serve } from 'bun'\nimport '@acme/ui/index.css'\n\nserve({})\n",
+      'utf8',
+    )
+  })
+
+  afterEach(async () => {
+    await rm(tmpRoot, { force: true, recursive: true })
+  })
+
+  it('finds workspaces by name, path or directory', async () => {
+    const workspaces = await listWorkspaces(tmpRoot)
+    expect(workspaces.map((workspace) => workspace.relativeDir)).toEqual(['apps/web', 'packages/cli', 'packages/ui'])
+    expect(findWorkspace(workspaces, '@acme/ui', tmpRoot).relativeDir).toBe('packages/ui')
+    expect(findWorkspace(workspaces, 'packages/ui', tmpRoot).relativeDir).toBe('packages/ui')
+    expect(findWorkspace(workspaces, 'web', tmpRoot).relativeDir).toBe('apps/web')
+    expect(() => findWorkspace(workspaces, 'docs', tmpRoot)).toThrow('Unknown workspace: docs')
+  })
+
+  it('deletes the workspace and strips references to it', async () => {
+    const workspaces = await listWorkspaces(tmpRoot)
+    const ui = findWorkspace(workspaces, 'ui', tmpRoot)
+
+    const { references } = await removeWorkspace(ui, workspaces, { install: false, rootDir: tmpRoot })
+
+    expect(references).toEqual([])
+    expect(existsSync(ui.dir)).toBeFalse()
+    const readManifest = async (relativePath: string) =>
+      JSON.parse(await readFile(path.join(tmpRoot, relativePath, 'package.json'), 'utf8')) as Record<string, unknown>
+    expect((await readManifest('.')).devDependencies).toEqual({})
+    expect((await readManifest('packages/cli')).dependencies).toEqual({ '@acme/core': 'workspace:*' })
+    expect((await readManifest('apps/web')).dependencies).toEqual({ react: '^19.0.0' })
+    expect(await readFile(path.join(tmpRoot, 'apps', 'web', 'src', 'index.ts'), 'utf8')).toBe(
+      "import { serve } from 'bun'\n\nserve({})\n",
+    )
+  })
+
+  it('reports remaining imports and leaves disk untouched in dry-run', async () => {
+    await writeFile(
+      path.join(tmpRoot, 'apps', 'web', 'src', 'App.tsx'),
+      "import { Button } from '@acme/ui/button'\n",
+      'utf8',
+    )
+    const workspaces = await listWorkspaces(tmpRoot)
+    const ui = findWorkspace(workspaces, '@acme/ui', tmpRoot)
+
+    const plan = startPlan()
+    let references: string[] = []
+    try {
+      ;({ references } = await removeWorkspace(ui, workspaces, { install: false, rootDir: tmpRoot }))
+    } finally {
+      stopPlan()
+    }
+
+    expect(references).toEqual(['apps/web/src/App.tsx'])
+    expect(plan.steps).toContainEqual({ kind: 'remove', path: 'packages/ui' })
+    expect(plan.steps).toContainEqual({
+      description: 'remove @acme/ui from dependencies',
+      kind: 'write',
+      path: 'packages/cli/package.json',
+    })
+    expect(existsSync(ui.dir)).toBeTrue()
+  })
+})
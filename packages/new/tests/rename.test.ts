@@ -0,0 +1,147 @@
+import { mkdir, readFile, rm, symlink, writeFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { findReferences, renameWorkspace } from '../commands/rename'
+import { startPlan, stopPlan } from '../scaffolders/plan'
+import { findWorkspace, listWorkspaces } from '../workspaces'
+
+const ROOT_DIR = path.resolve(import.meta.dir, '../../..')
+
+const writeFileDeep = async (filePath: string, contents: string) => {
+  await mkdir(path.dirname(filePath), { recursive: true })
+  await writeFile(filePath, contents, 'utf8')
+}
+
+const toJson = (data: unknown) => `${JSON.stringify(data, undefined, 2)}\n`
+
+describe('@bun-monorepo-template/new rename', () => {
+  let tmpRoot = ''
+
+  beforeEach(async () => {
+    tmpRoot = path.join(ROOT_DIR, '.tmp', `@bun-monorepo-template/new-rename-${randomUUID()}`)
+    await writeFileDeep(path.join(tmpRoot, 'package.json'), toJson({ workspaces: ['apps/*', 'packages/*'] }))
+    await writeFileDeep(
+      path.join(tmpRoot, 'packages', 'tool', 'package.json'),
+      toJson({ bin: { tool: './src/index.ts' }, name: '@acme/tool' }),
+    )
+    await writeFileDeep(path.join(tmpRoot, 'packages', 'tool-kit', 'package.json'), toJson({ name: '@acme/tool-kit' }))
+    await writeFileDeep(
+      path.join(tmpRoot, 'apps', 'web', 'package.json'),
+      toJson({ dependencies: { '@acme/tool': 'workspace:*', '@acme/tool-kit': 'workspace:*' }, name: '@acme/web' }),
+    )
+    await writeFileDeep(
+      path.join(tmpRoot, 'apps', 'web', 'src', 'index.ts'),
+      "import { run } from '@acme/tool/run'\nimport { kit } from '@acme/tool-kit'\n",
+    )
+    await writeFileDeep(
+      path.join(tmpRoot, 'packages', 'tool-kit', 'tsconfig.json'),
+      toJson({ references: [{ path: '../tool' }] }),
+    )
+    await writeFileDeep(path.join(tmpRoot, 'README.md'), 'See packages/tool and `.tool-3000.sock`.\n')
+  })
+
+  afterEach(async () => {
+    await rm(tmpRoot, { force: true, recursive: true })
+  })
+
+  it('moves the workspace and rewrites manifests, tsconfigs and imports', async () => {
+    await writeFile(path.join(tmpRoot, '.tool-3000.sock'), '', 'utf8')
+    const workspaces = await listWorkspaces(tmpRoot)
+    const tool = findWorkspace(workspaces, 'tool', tmpRoot)
+    const targetDir = path.join(tmpRoot, 'packages', 'cli')
+
+    const { name } = await renameWorkspace(tool, targetDir, { install: false, rootDir: tmpRoot })
+
+    expect(name).toBe('@acme/cli')
+    expect(existsSync(tool.dir)).toBeFalse()
+    expect(existsSync(path.join(tmpRoot, '.tool-3000.sock'))).toBeFalse()
+    expect(JSON.parse(await readFile(path.join(targetDir, 'package.json'), 'utf8'))).toEqual({
+      bin: { cli: './src/index.ts' },
+      name: '@acme/cli',
+    })
+    expect(JSON.parse(await readFile(path.join(tmpRoot, 'apps', 'web', 'package.json'), 'utf8')).dependencies).toEqual({
+      '@acme/cli': 'workspace:*',
+      '@acme/tool-kit': 'workspace:*',
+    })
+    expect(await readFile(path.join(tmpRoot, 'apps', 'web', 'src', 'index.ts'), 'utf8')).toBe(
+      "import { run } from '@acme/cli/run'\nimport { kit } from '@acme/tool-kit'\n",
+    )
+    expect(JSON.parse(await readFile(path.join(tmpRoot, 'packages', 'tool-kit', 'tsconfig.json'), 'utf8'))).toEqual({
+      references: [{ path: '../cli' }],
+    })
+    expect(await readFile(path.join(tmpRoot, 'README.md'), 'utf8')).toBe('See packages/tool and `.tool-3000.sock`.\n')
+    expect(await findReferences(tool, tmpRoot)).toEqual([])
+  })
+
+  it('plans the rename without touching disk', async () => {
+    const workspaces = await listWorkspaces(tmpRoot)
+    const tool = findWorkspace(workspaces, '@acme/tool', tmpRoot)
+
+    const plan = startPlan()
+    try {
+      await renameWorkspace(tool, path.join(tmpRoot, 'packages', 'cli'), { install: false, rootDir: tmpRoot })
+    } finally {
+      stopPlan()
+    }
+
+    expect(plan.steps[0]).toEqual({ from: 'packages/tool', kind: 'move', to: 'packages/cli' })
+    expect(plan.steps).toContainEqual({
+      description: 'rewrite references',
+      kind: 'write',
+      path: 'packages/cli/package.json',
+    })
+    expect(existsSync(tool.dir)).toBeTrue()
+    expect(await findReferences(tool, tmpRoot)).toEqual([
+      'apps/web/package.json',
+      'apps/web/src/index.ts',
+      'packages/tool-kit/tsconfig.json',
+      'packages/tool/package.json',
+    ])
+  })
+
+  it('checks for references it cannot rewrite before changing anything', async () => {
+    const indexPath = path.join(tmpRoot, 'apps', 'web', 'src', 'index.ts')
+    await writeFile(indexPath, "export const runner = require.resolve('@acme/tool/run')\n", 'utf8')
+    const workspaces = await listWorkspaces(tmpRoot)
+    const tool = findWorkspace(workspaces, 'tool', tmpRoot)
+
+    await expect(
+      renameWorkspace(tool, path.join(tmpRoot, 'packages', 'cli'), { install: false, rootDir: tmpRoot }),
+    ).rejects.toThrow('these files would still reference it:\napps/web/src/index.ts')
+
+    expect(existsSync(tool.dir)).toBeTrue()
+    expect(existsSync(path.join(tmpRoot, 'packages', 'cli'))).toBeFalse()
+    expect(JSON.parse(await readFile(path.join(tmpRoot, 'apps', 'web', 'package.json'), 'utf8')).dependencies).toEqual({
+      '@acme/tool': 'workspace:*',
+      '@acme/tool-kit': 'workspace:*',
+    })
+  })
+
+  it('moves the workspace back and restores every file when a step fails', async () => {
+    // Planned through the link, but the write fails once packages/tool has moved away.
+    await writeFile(path.join(tmpRoot, 'packages', 'tool', 'tsconfig.base.json'), toJson({ extends: '../tool' }))
+    await symlink('../tool/tsconfig.base.json', path.join(tmpRoot, 'packages', 'tool-kit', 'tsconfig.base.json'))
+    const workspaces = await listWorkspaces(tmpRoot)
+    const tool = findWorkspace(workspaces, 'tool', tmpRoot)
+    const manifests = ['apps/web/package.json', 'packages/tool/package.json', 'packages/tool-kit/tsconfig.json']
+    const before = await Promise.all(manifests.map(async (file) => readFile(path.join(tmpRoot, file), 'utf8')))
+
+    await expect(
+      renameWorkspace(tool, path.join(tmpRoot, 'packages', 'cli'), { install: false, rootDir: tmpRoot }),
+    ).rejects.toThrow('ENOENT')
+
+    expect(existsSync(path.join(tmpRoot, 'packages', 'cli'))).toBeFalse()
+    expect(await Promise.all(manifests.map(async (file) => readFile(path.join(tmpRoot, file), 'utf8')))).toEqual(before)
+  })
+
+  it('refuses to overwrite an existing workspace', async () => {
+    const workspaces = await listWorkspaces(tmpRoot)
+    const tool = findWorkspace(workspaces, 'tool', tmpRoot)
+    const kit = findWorkspace(workspaces, 'tool-kit', tmpRoot)
+    await expect(renameWorkspace(tool, kit.dir, { install: false, rootDir: tmpRoot })).rejects.toThrow(
+      'Target directory already exists',
+    )
+  })
+})
@@ -0,0 +1,59 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { afterEach, describe, expect, it } from 'bun:test'
+import { withRollback } from '../scaffolders/rollback'
+
+const ROOT_DIR = path.resolve(import.meta.dir, '../../..')
+
+describe('@bun-monorepo-template/new rollback', () => {
+  const tmpRoot = path.join(ROOT_DIR, '.tmp', `@bun-monorepo-template/new-rollback-${randomUUID()}`)
+  const trackedFile = path.join(tmpRoot, 'package.json')
+
+  afterEach(async () => {
+    await rm(tmpRoot, { recursive: true, force: true })
+  })
+
+  const fail = async (targetDir: string) => {
+    await mkdir(path.join(targetDir, 'src'), { recursive: true })
+    await writeFile(path.join(targetDir, 'src', 'index.ts'), 'export {}\n', 'utf8')
+    await writeFile(trackedFile, '{"name":"changed"}\n', 'utf8')
+    throw new Error('qa:init failed')
+  }
+
+  it('removes created directories and restores tracked files', async () => {
+    await mkdir(tmpRoot, { recursive: true })
+    await writeFile(trackedFile, '{"name":"original"}\n', 'utf8')
+    const targetDir = path.join(tmpRoot, 'packages', 'nested', 'demo')
+
+    await expect(withRollback(targetDir, () => fail(targetDir), { files: [trackedFile] })).rejects.toThrow(
+      'qa:init failed',
+    )
+
+    expect(existsSync(path.join(tmpRoot, 'packages'))).toBeFalse()
+    expect(await readFile(trackedFile, 'utf8')).toBe('{"name":"original"}\n')
+  })
+
+  it('keeps partial output with keepOnFailure', async () => {
+    const targetDir = path.join(tmpRoot, 'packages', 'demo')
+
+    await expect(
+      withRollback(targetDir, () => fail(targetDir), { files: [trackedFile], keepOnFailure: true }),
+    ).rejects.toThrow('qa:init failed')
+
+    expect(existsSync(path.join(targetDir, 'src', 'index.ts'))).toBeTrue()
+  })
+
+  it('never clears a target that was not empty', async () => {
+    const targetDir = path.join(tmpRoot, 'packages', 'existing')
+    await mkdir(targetDir, { recursive: true })
+    await writeFile(path.join(targetDir, 'keep.txt'), 'keep\n', 'utf8')
+
+    await expect(withRollback(targetDir, () => Promise.reject(new Error('not empty')), { files: [] })).rejects.toThrow(
+      'not empty',
+    )
+
+    expect(existsSync(path.join(targetDir, 'keep.txt'))).toBeTrue()
+  })
+})
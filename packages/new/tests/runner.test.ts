@@ -0,0 +1,91 @@
+import { mkdir, rm, writeFile } from 'node:fs/promises'
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { buildGraph, findCycle, topologicalLevels } from '../graph'
+import { formatSummary, runTasks } from '../runner'
+import { listWorkspaces } from '../workspaces'
+
+const ROOT_DIR = path.resolve(import.meta.dir, '../../..')
+
+const writePackage = async (dir: string, manifest: Record<string, unknown>) => {
+  await mkdir(dir, { recursive: true })
+  await writeFile(path.join(dir, 'package.json'), JSON.stringify(manifest), 'utf8')
+}
+
+describe('@bun-monorepo-template/new task runner', () => {
+  let tmpRoot = ''
+
+  beforeEach(async () => {
+    tmpRoot = path.join(ROOT_DIR, '.tmp', `@bun-monorepo-template/new-runner-${randomUUID()}`)
+    await writePackage(tmpRoot, { workspaces: ['apps/*', 'packages/*'] })
+    await writePackage(path.join(tmpRoot, 'packages', 'ui'), {
+      dependencies: { '@acme/core': 'workspace:*' },
+      name: '@acme/ui',
+      scripts: { build: 'echo ui' },
+    })
+    await writePackage(path.join(tmpRoot, 'packages', 'core'), {
+      name: '@acme/core',
+      scripts: { build: 'echo core' },
+    })
+    await writePackage(path.join(tmpRoot, 'apps', 'web'), {
+      dependencies: { '@acme/ui': 'workspace:*', react: '^19.0.0' },
+      name: '@acme/web',
+      scripts: { build: 'echo web' },
+    })
+    await writePackage(path.join(tmpRoot, 'apps', 'docs'), { name: '@acme/docs' })
+  })
+
+  afterEach(async () => {
+    await rm(tmpRoot, { force: true, recursive: true })
+  })
+
+  it('orders workspaces by their workspace dependencies', async () => {
+    const graph = buildGraph(await listWorkspaces(tmpRoot))
+    expect(graph.dependents.get('@acme/core')).toEqual(['@acme/ui'])
+    expect(topologicalLevels(graph)).toEqual([['@acme/docs', '@acme/core'], ['@acme/ui'], ['@acme/web']])
+  })
+
+  it('detects cycles', async () => {
+    await writePackage(path.join(tmpRoot, 'packages', 'core'), {
+      dependencies: { '@acme/web': 'workspace:*' },
+      name: '@acme/core',
+    })
+    const graph = buildGraph(await listWorkspaces(tmpRoot))
+    expect(findCycle(graph)).toEqual(['@acme/web', '@acme/ui', '@acme/core', '@acme/web'])
+    expect(() => topologicalLevels(graph)).toThrow('Workspace dependency cycle: @acme/web -> @acme/ui')
+  })
+
+  it('runs tasks in order with prefixed output', async () => {
+    const lines: string[] = []
+    const graph = buildGraph(await listWorkspaces(tmpRoot))
+    const results = await runTasks(graph, 'build', { concurrency: 2, write: (line) => lines.push(line) })
+
+    expect(results.map(({ name, status }) => [name, status])).toEqual([
+      ['@acme/docs', 'missing'],
+      ['@acme/web', 'success'],
+      ['@acme/core', 'success'],
+      ['@acme/ui', 'success'],
+    ])
+    const echoed = lines.filter((line) => !line.includes('$ '))
+    expect(echoed).toEqual(['[@acme/core] core', '[@acme/ui  ] ui', '[@acme/web ] web'])
+  })
+
+  it('skips dependents of a failed task', async () => {
+    await writePackage(path.join(tmpRoot, 'packages', 'core'), {
+      name: '@acme/core',
+      scripts: { build: 'exit 3' },
+    })
+    const graph = buildGraph(await listWorkspaces(tmpRoot))
+    const results = await runTasks(graph, 'build', { concurrency: 1, write: () => {} })
+
+    expect(results.find((result) => result.name === '@acme/core')).toMatchObject({ exitCode: 3, status: 'failed' })
+    expect(formatSummary('build', results)).toBe(
+      [
+        'build: 0 succeeded, 1 failed, 2 skipped',
+        '  failed: @acme/core',
+        '  skipped (dependency failed): @acme/web, @acme/ui',
+      ].join('\n'),
+    )
+  })
+})
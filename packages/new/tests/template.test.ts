@@ -0,0 +1,77 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { afterAll, describe, expect, it } from 'bun:test'
+import { renderTemplate, renderTemplateDir, renderTemplatePath } from '../scaffolders/template'
+
+const ROOT_DIR = path.resolve(import.meta.dir, '../../..')
+
+describe('@bun-monorepo-template/new templates engine', () => {
+  const tmpRoot = path.join(ROOT_DIR, '.tmp', `@bun-monorepo-template/new-template-${randomUUID()}`)
+
+  afterAll(async () => {
+    await rm(tmpRoot, { recursive: true, force: true })
+  })
+
+  it('replaces known placeholders and keeps unknown ones', () => {
+    const output = renderTemplate('{"name": "{{packageName}}"} <div style={{ color }} /> {{missing}}', {
+      packageName: '@acme/ui',
+    })
+    expect(output).toBe('{"name": "@acme/ui"} <div style={{ color }} /> {{missing}}')
+  })
+
+  it('renders conditional blocks', () => {
+    const template = [
+      '# {{name}}',
+      '{{#if description}}',
+      '{{description}}',
+      '{{else}}',
+      'Bun library{{#if tailwind}} with Tailwind{{/if}}.',
+      '{{/if}}',
+      '{{#unless tests}}',
+      'No tests yet.',
+      '{{/unless}}',
+      '',
+    ].join('\n')
+
+    expect(renderTemplate(template, { description: '', name: 'lib', tailwind: true, tests: false })).toBe(
+      '# lib\nBun library with Tailwind.\nNo tests yet.\n',
+    )
+    expect(renderTemplate(template, { description: 'Dates.', name: 'lib', tailwind: false, tests: true })).toBe(
+      '# lib\nDates.\n',
+    )
+  })
+
+  it('renders the web App with or without Tailwind', async () => {
+    const app = await readFile(path.join(ROOT_DIR, 'packages', 'new', 'templates', 'web', 'src', 'App.tsx'), 'utf8')
+
+    const plain = renderTemplate(app, { tailwind: false })
+    expect(plain).toContain('<p>This is a fresh Bun + React app. Build something great.</p>')
+    expect(plain).not.toContain('className')
+    expect(renderTemplate(app, { tailwind: true })).toContain('<main className="min-h-screen bg-white text-slate-900">')
+  })
+
+  it('renames dotfiles and renders path segments', () => {
+    expect(renderTemplatePath('gitignore', {})).toBe('.gitignore')
+    expect(renderTemplatePath('src/{{name}}.ts', { name: 'worker' })).toBe('src/worker.ts')
+  })
+
+  it('skips files excluded by template.json conditions', async () => {
+    const templateDir = path.join(tmpRoot, 'template')
+    const targetDir = path.join(tmpRoot, 'target')
+    await mkdir(path.join(templateDir, 'tests'), { recursive: true })
+    await writeFile(path.join(templateDir, 'template.json'), '{"conditions":{"tests":"tests"}}', 'utf8')
+    await writeFile(path.join(templateDir, 'gitignore'), 'dist\n', 'utf8')
+    await writeFile(path.join(templateDir, 'package.json'), '{"name":"{{packageName}}"}\n', 'utf8')
+    await writeFile(path.join(templateDir, 'tests', 'index.test.ts'), '// {{name}}\n', 'utf8')
+
+    const vars = { name: 'demo', packageName: '@acme/demo', tests: false }
+    await renderTemplateDir(templateDir, targetDir, vars, { rootDir: tmpRoot })
+
+    expect(await readFile(path.join(targetDir, 'package.json'), 'utf8')).toBe('{"name":"@acme/demo"}\n')
+    expect(existsSync(path.join(targetDir, '.gitignore'))).toBeTrue()
+    expect(existsSync(path.join(targetDir, 'template.json'))).toBeFalse()
+    expect(existsSync(path.join(targetDir, 'tests'))).toBeFalse()
+  })
+})
@@ -1,12 +1,10 @@
-import { lstat, readFile, rm } from 'node:fs/promises'
+import { readFile } from 'node:fs/promises'
 import { existsSync } from 'node:fs'
 import path from 'node:path'
 import { describe, expect, it } from 'bun:test'
 
 const ROOT_DIR = path.resolve(import.meta.dir, '../..')
 const TEMPLATES_DIR = path.join(ROOT_DIR, 'templates')
-const BUN_CREATE = path.join(ROOT_DIR, '..', '.bun-create')
-const POSTINSTALL = path.join(ROOT_DIR, 'scripts', 'postinstall.ts')
 
 const template = (name: string) => path.join(TEMPLATES_DIR, name)
 
@@ -47,24 +45,4 @@ describe('@bun-monorepo-template/new templates', () => {
     expect(exportsField['./utils']).toBeDefined()
     expect(exportsField['./index.css']).toBeDefined()
   })
-
-  it('postinstall creates .bun-create symlink', async () => {
-    if (existsSync(BUN_CREATE)) {
-      await rm(BUN_CREATE, { recursive: true, force: true })
-    }
-
-    const proc = Bun.spawn(['bun', POSTINSTALL], {
-      cwd: ROOT_DIR,
-      stdout: 'ignore',
-      stderr: 'pipe',
-    })
-    const exitCode = await proc.exited
-    if (exitCode !== 0) {
-      const err = await new Response(proc.stderr).text()
-      throw new Error(err || `postinstall failed with code ${exitCode}`)
-    }
-
-    const stat = await lstat(BUN_CREATE)
-    expect(stat.isSymbolicLink()).toBeTrue()
-  })
 })
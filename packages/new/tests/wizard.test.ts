@@ -0,0 +1,85 @@
+import path from 'node:path'
+import { PassThrough } from 'node:stream'
+import { describe, expect, it } from 'bun:test'
+import { loadScaffolders } from '../scaffolders/registry'
+import { runWizard } from '../wizard'
+
+const ROOT_DIR = path.resolve(import.meta.dir, '../../..')
+const TYPE_PROMPT = 'Type [1-4]: '
+const isQuestion = (prompt: string) => prompt.endsWith('? [Y/n] ') || prompt.endsWith('? [y/N] ')
+
+// Answers each prompt (output not ending in a newline) with the next line, and records everything printed.
+const wizard = async (answers: string[]) => {
+  const input = new PassThrough()
+  const output = new PassThrough()
+  const prompts: string[] = []
+  let transcript = ''
+  output.setEncoding('utf8')
+  output.on('data', (chunk: string) => {
+    transcript += chunk
+    if (chunk.endsWith('\n')) return
+    prompts.push(chunk.slice(chunk.lastIndexOf('\n') + 1))
+    input.write(`${answers.shift() ?? ''}\n`)
+  })
+  const result = await runWizard(await loadScaffolders(ROOT_DIR), { input, output })
+  return { prompts, result, transcript }
+}
+
+describe('@bun-monorepo-template/new wizard', () => {
+  it('picks the app type by number or by name', async () => {
+    const byNumber = await wizard(['2', 'packages/wizard-by-number', 'n', 'n'])
+    const byName = await wizard(['LIB', 'packages/wizard-by-name', 'n', 'n'])
+
+    expect(byNumber.transcript).toStartWith('What do you want to create?\n  1) web  Creates a Bun React')
+    expect(byNumber.transcript).toEndWith(`Creating cli at ${path.join('packages', 'wizard-by-number')}\n`)
+    expect(byNumber.result.type).toBe('cli')
+    expect(byName.result).toEqual({
+      install: false,
+      tailwind: false,
+      targetDir: path.join(ROOT_DIR, 'packages', 'wizard-by-name'),
+      type: 'lib',
+    })
+  })
+
+  it('asks again for an unknown type', async () => {
+    const { prompts, result, transcript } = await wizard(['9', 'rocket', 'web', 'apps/wizard-web', '', ''])
+
+    expect(result.type).toBe('web')
+    expect(prompts.filter((prompt) => prompt === TYPE_PROMPT)).toEqual([TYPE_PROMPT, TYPE_PROMPT, TYPE_PROMPT])
+    expect(transcript).toContain('Pick a number between 1 and 4 or one of: web, cli, lib, ui')
+  })
+
+  it('asks again for a target outside the repo or not empty', async () => {
+    const { prompts, result, transcript } = await wizard([
+      'lib',
+      '../outside',
+      'packages/new',
+      'packages/wizard-empty',
+      '',
+      '',
+    ])
+
+    expect(result.targetDir).toBe(path.join(ROOT_DIR, 'packages', 'wizard-empty'))
+    expect(prompts.filter((prompt) => prompt.startsWith('Name or path'))).toEqual([
+      'Name or path [lib]: ',
+      'Name or path [lib]: ',
+      'Name or path [lib]: ',
+    ])
+    expect(transcript).toContain(`Target path must be inside repo root: ${ROOT_DIR}`)
+    expect(transcript).toContain(`Target directory is not empty: ${path.join(ROOT_DIR, 'packages', 'new')}`)
+  })
+
+  it('uses the defaults for empty yes/no answers and re-asks anything else', async () => {
+    const web = await wizard(['web', 'apps/wizard-defaults', '', ''])
+    const lib = await wizard(['lib', 'packages/wizard-defaults', 'maybe', '', 'no'])
+
+    expect(web.result).toMatchObject({ install: true, tailwind: true })
+    expect(web.prompts.filter(isQuestion)).toEqual(['Use Tailwind? [Y/n] ', 'Run bun install when done? [Y/n] '])
+    expect(lib.result).toMatchObject({ install: false, tailwind: false })
+    expect(lib.prompts.filter(isQuestion)).toEqual([
+      'Use Tailwind? [y/N] ',
+      'Use Tailwind? [y/N] ',
+      'Run bun install when done? [Y/n] ',
+    ])
+  })
+})
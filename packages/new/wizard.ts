@@ -0,0 +1,96 @@
+import path from 'node:path'
+import { createInterface, type Interface } from 'node:readline/promises'
+import type { Scaffolder } from './scaffolders/registry'
+import { ensureEmptyDir, resolveTarget, ROOT_DIR, type AppType, type ScaffolderMetadata } from './scaffolders/utils'
+
+export interface WizardAnswers {
+  type: AppType
+  targetDir: string
+  install: boolean
+  tailwind: boolean
+}
+
+/** Where the wizard reads answers and writes prompts; the terminal unless a caller (ex: a test) passes its own. */
+export interface PromptStreams {
+  input: NodeJS.ReadableStream
+  output: NodeJS.WritableStream
+}
+
+const STDIO: PromptStreams = { input: process.stdin, output: process.stdout }
+
+// The readline interface plus a way to print to the same output, so nothing bypasses the streams.
+interface Prompter {
+  rl: Interface
+  print: (line: string) => void
+}
+
+export const canPrompt = () => Boolean(process.stdin.isTTY && process.stdout.isTTY)
+
+const promptType = async ({ rl, print }: Prompter, scaffolders: Map<AppType, Scaffolder>) => {
+  const types = [...scaffolders.keys()]
+  const width = Math.max(...types.map((type) => type.length))
+  print('What do you want to create?')
+  types.forEach((type, index) => {
+    print(`  ${index + 1}) ${type.padEnd(width)}  ${scaffolders.get(type)?.metadata.description ?? ''}`)
+  })
+
+  while (true) {
+    const answer = (await rl.question(`Type [1-${types.length}]: `)).trim()
+    const byIndex = types[Number(answer) - 1]
+    if (/^\d+$/.test(answer) && byIndex) return byIndex
+    const byName = types.find((type) => type === answer.toLowerCase())
+    if (byName) return byName
+    print(`Pick a number between 1 and ${types.length} or one of: ${types.join(', ')}`)
+  }
+}
+
+const promptTarget = async ({ rl, print }: Prompter, type: AppType, metadata: ScaffolderMetadata) => {
+  while (true) {
+    const answer = (await rl.question(`Name or path [${type}]: `)).trim() || type
+    try {
+      const targetDir = resolveTarget(answer, metadata.defaultRoot)
+      await ensureEmptyDir(targetDir)
+      return targetDir
+    } catch (error) {
+      print(error instanceof Error ? error.message : String(error))
+    }
+  }
+}
+
+const promptYesNo = async (rl: Interface, message: string, fallback: boolean) => {
+  const hint = fallback ? '[Y/n]' : '[y/N]'
+  while (true) {
+    const answer = (await rl.question(`${message} ${hint} `)).trim().toLowerCase()
+    if (!answer) return fallback
+    if (answer === 'y' || answer === 'yes') return true
+    if (answer === 'n' || answer === 'no') return false
+  }
+}
+
+export const runWizard = async (
+  scaffolders: Map<AppType, Scaffolder>,
+  streams: PromptStreams = STDIO,
+): Promise<WizardAnswers> => {
+  const rl = createInterface(streams)
+  const prompter: Prompter = { print: (line) => streams.output.write(`${line}\n`), rl }
+  try {
+    const type = await promptType(prompter, scaffolders)
+    const { metadata } = scaffolders.get(type) as Scaffolder
+    const targetDir = await promptTarget(prompter, type, metadata)
+    const tailwind = await promptYesNo(rl, 'Use Tailwind?', metadata.tailwind)
+    const install = await promptYesNo(rl, 'Run bun install when done?', true)
+    prompter.print(`Creating ${type} at ${path.relative(ROOT_DIR, targetDir)}`)
+    return { install, tailwind, targetDir, type }
+  } finally {
+    rl.close()
+  }
+}
+
+export const confirm = async (message: string, fallback = false) => {
+  const rl = createInterface({ input: process.stdin, output: process.stdout })
+  try {
+    return await promptYesNo(rl, message, fallback)
+  } finally {
+    rl.close()
+  }
+}
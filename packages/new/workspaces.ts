@@ -0,0 +1,116 @@
+import { readdir } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import path from 'node:path'
+import { readJson, ROOT_DIR } from './scaffolders/utils'
+
+export type DependencyField = (typeof DEPENDENCY_FIELDS)[number]
+
+export interface WorkspaceManifest {
+  name?: string
+  workspaces?: string[] | { packages?: string[] }
+  [key: string]: unknown
+}
+
+export interface Workspace {
+  name: string
+  dir: string
+  relativeDir: string
+  manifestPath: string
+  manifest: WorkspaceManifest
+}
+
+export const DEPENDENCY_FIELDS = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+] as const
+
+export const toPosix = (filePath: string) => filePath.replace(/\\/g, '/')
+
+const readWorkspacePatterns = (manifest: WorkspaceManifest) => {
+  const { workspaces } = manifest
+  if (Array.isArray(workspaces)) return workspaces
+  return workspaces?.packages ?? []
+}
+
+/**
+ * Expands the root package.json `workspaces` globs into the workspaces that have a
+ * package.json, sorted by their path relative to the repo root.
+ */
+export const listWorkspaces = async (rootDir = ROOT_DIR) => {
+  const rootManifestPath = path.join(rootDir, 'package.json')
+  if (!existsSync(rootManifestPath)) return []
+  const patterns = readWorkspacePatterns(await readJson<WorkspaceManifest>(rootManifestPath))
+
+  const manifestPaths = new Set<string>()
+  for (const pattern of patterns) {
+    const glob = new Bun.Glob(`${pattern.replace(/\/$/, '')}/package.json`)
+    for await (const match of glob.scan({ cwd: rootDir, onlyFiles: true })) {
+      if (!toPosix(match).split('/').includes('node_modules')) manifestPaths.add(path.join(rootDir, match))
+    }
+  }
+
+  const workspaces: Workspace[] = []
+  for (const manifestPath of manifestPaths) {
+    const manifest = await readJson<WorkspaceManifest>(manifestPath)
+    const dir = path.dirname(manifestPath)
+    const relativeDir = toPosix(path.relative(rootDir, dir))
+    workspaces.push({ dir, manifest, manifestPath, name: manifest.name ?? relativeDir, relativeDir })
+  }
+  return workspaces.toSorted((a, b) => a.relativeDir.localeCompare(b.relativeDir))
+}
+
+/**
+ * Finds a workspace by package name (`@scope/ui`), path (`packages/ui`) or directory name (`ui`).
+ */
+export const findWorkspace = (workspaces: Workspace[], query: string, rootDir = ROOT_DIR) => {
+  const relativeQuery = toPosix(path.relative(rootDir, path.resolve(rootDir, query)))
+  const exact = workspaces.find((workspace) => workspace.name === query || workspace.relativeDir === relativeQuery)
+  if (exact) return exact
+
+  const byDirName = workspaces.filter((workspace) => path.basename(workspace.dir) === query)
+  if (byDirName.length > 1) {
+    const candidates = byDirName.map((workspace) => workspace.relativeDir).join(', ')
+    throw new Error(`Workspace name "${query}" is ambiguous (${candidates}); pass a path instead`)
+  }
+  const [match] = byDirName
+  if (!match) {
+    throw new Error(`Unknown workspace: ${query}`)
+  }
+  return match
+}
+
+const IGNORED_DIRS = new Set(['node_modules', '.git', '.dev', '.tmp', '.cache', 'dist', 'coverage', 'output'])
+
+/**
+ * Recursively lists files under `dir`, skipping dependency and build output directories.
+ */
+export const walkFiles = async (dir: string): Promise<string[]> => {
+  if (!existsSync(dir)) return []
+  const entries = await readdir(dir, { withFileTypes: true })
+  const files: string[] = []
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.has(entry.name)) files.push(...(await walkFiles(fullPath)))
+    } else if (entry.isFile()) {
+      files.push(fullPath)
+    }
+  }
+  return files
+}
+
+/**
+ * Names of the other workspaces that `workspace` depends on through a `workspace:` range.
+ */
+export const listWorkspaceDependencies = (workspace: Workspace, names: Set<string>) => {
+  const dependencies = new Set<string>()
+  for (const field of DEPENDENCY_FIELDS) {
+    const entries = (workspace.manifest[field] ?? {}) as Record<string, string>
+    for (const [name, range] of Object.entries(entries)) {
+      if (range.startsWith('workspace:') && names.has(name) && name !== workspace.name) dependencies.add(name)
+    }
+  }
+  return [...dependencies].toSorted()
+}
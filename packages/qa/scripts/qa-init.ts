@@ -2,34 +2,75 @@
 import { mkdir, readFile, writeFile } from 'node:fs/promises'
 import { existsSync } from 'node:fs'
 import path from 'node:path'
+import {
+  detectDeclarations,
+  detectKind,
+  detectReact,
+  detectTailwind,
+  readQaConfig,
+  TSCONFIG_PRESETS,
+  type QaConfig,
+  type TsconfigPreset,
+  type WorkspaceKind,
+} from '../src/detect'
+import { createUnifiedDiff } from '../src/diff'
+import { appendJsoncValue, parseJsonc, setJsoncValue } from '../src/jsonc'
+import {
+  BUILD_SCRIPT,
+  coerceExtendsField,
+  EXIT_FAILURE,
+  EXIT_SUCCESS,
+  exitWithError,
+  formatJson,
+  OXLINT_PRESET,
+  OXLINT_SCHEMA,
+  QA_CWD,
+  QA_SCRIPT_COMMANDS,
+  expandWorkspaceGlob,
+  isGlob,
+  readJson,
+  readWorkspacePatterns,
+  REPO_ROOT,
+  resolveBaseDir,
+  resolveTargetDir,
+  toDisplayPath,
+} from './shared'
 
 const USAGE = `
 Usage:
-  bun run --cwd packages/qa qa:init --dir <path> [--kind web|cli|lib|auto] [--tailwind] [--force]
-  bun run --cwd packages/qa qa:init <path> [--kind web|cli|lib|auto] [--tailwind] [--force]
+  bun run --cwd packages/qa qa:init --dir <path> [--kind web|cli|lib|auto] [--tailwind|--no-tailwind] [--tsconfig <preset>] [--force]
+  bun run --cwd packages/qa qa:init <path> [--kind web|cli|lib|auto] [--tailwind|--no-tailwind] [--tsconfig <preset>] [--force]
+  bun run --cwd packages/qa qa:init <path> --check   (print a diff and exit 1 if the config drifted)
+  bun run --cwd packages/qa qa:init --all [--check]   (every workspace from the root package.json)
+  bun run --cwd packages/qa qa:init --dir '<glob>' [--check]
 
 Examples:
   bun run --cwd packages/qa qa:init --dir apps/web --kind auto
   bun run --cwd packages/qa qa:init apps/web --kind auto
   bun run --cwd packages/qa qa:init --dir packages/cli --kind cli
   bun run --cwd packages/qa qa:init --dir packages/lib --kind lib
+  bun run --cwd packages/qa qa:init --dir packages/worker --tsconfig worker
+  bun run --cwd packages/qa qa:init --dir apps/web --check
+  bun run --cwd packages/qa qa:init --dir 'packages/*' --check
+  bun run --cwd packages/qa qa:init --all
 `
 
-type Kind = 'web' | 'cli' | 'lib' | 'auto'
+type Kind = WorkspaceKind | 'auto'
 
 interface Options {
   dir?: string
   kind: Kind
   tailwind?: boolean
+  tsconfigPreset?: TsconfigPreset
   force: boolean
+  check: boolean
+  all: boolean
 }
 
 const ARGV_START_INDEX = 2
 const INDEX_STEP = 1
 const NEXT_INDEX_STEP = 2
-const EXIT_SUCCESS = 0
-const EXIT_FAILURE = 1
-const JSON_INDENT = 2
+const NO_DRIFT = 0
 
 type ArgHandler = (args: string[], index: number, options: Options) => number
 
@@ -37,6 +78,8 @@ const parseArgs = (): Options => parseArgsList(process.argv.slice(ARGV_START_IND
 
 const parseArgsList = (args: string[]): Options => {
   const options: Options = {
+    all: false,
+    check: false,
     force: false,
     kind: 'auto',
   }
@@ -89,11 +132,35 @@ const handleTailwindFlag = (_args: string[], index: number, options: Options) =>
   return index + INDEX_STEP
 }
 
+const handleNoTailwindFlag = (_args: string[], index: number, options: Options) => {
+  options.tailwind = false
+  return index + INDEX_STEP
+}
+
+const handleTsconfigFlag = (args: string[], index: number, options: Options) => {
+  const next = args[index + INDEX_STEP]
+  if (TSCONFIG_PRESETS.includes(next as TsconfigPreset)) {
+    options.tsconfigPreset = next as TsconfigPreset
+    return index + NEXT_INDEX_STEP
+  }
+  throw new Error(`Invalid --tsconfig: ${next ?? '(missing)'} (expected ${TSCONFIG_PRESETS.join('|')})`)
+}
+
 const handleForceFlag = (_args: string[], index: number, options: Options) => {
   options.force = true
   return index + INDEX_STEP
 }
 
+const handleAllFlag = (_args: string[], index: number, options: Options) => {
+  options.all = true
+  return index + INDEX_STEP
+}
+
+const handleCheckFlag = (_args: string[], index: number, options: Options) => {
+  options.check = true
+  return index + INDEX_STEP
+}
+
 const handleHelpFlag = (_args: string[], index: number, _options: Options) => {
   console.log(USAGE.trim())
   process.exit(EXIT_SUCCESS)
@@ -101,11 +168,15 @@ const handleHelpFlag = (_args: string[], index: number, _options: Options) => {
 }
 
 const argHandlers: Record<string, ArgHandler> = {
+  '--all': handleAllFlag,
+  '--check': handleCheckFlag,
   '--dir': handleDirFlag,
   '--force': handleForceFlag,
   '--help': handleHelpFlag,
   '--kind': handleKindFlag,
+  '--no-tailwind': handleNoTailwindFlag,
   '--tailwind': handleTailwindFlag,
+  '--tsconfig': handleTsconfigFlag,
   '-h': handleHelpFlag,
 }
 
@@ -113,188 +184,134 @@ const ensureDir = async (dir: string) => {
   await mkdir(dir, { recursive: true })
 }
 
-// eslint-disable-next-line max-statements
-const stripJsonComments = (input: string) => {
-  let output = ''
-  let inString = false
-  let stringChar = ''
-  let index = 0
+interface FileChange {
+  filePath: string
+  before?: string
+  after: string
+}
 
-  while (index < input.length) {
-    const char = input[index]
-    const next = input[index + INDEX_STEP]
-
-    if (inString) {
-      output += char
-      if (char === '\\' && next) {
-        output += next
-        index += NEXT_INDEX_STEP
-      } else {
-        if (char === stringChar) {
-          inString = false
-        }
-        index += INDEX_STEP
-      }
-    } else if (char === '"' || char === "'") {
-      inString = true
-      stringChar = char
-      output += char
-      index += INDEX_STEP
-    } else if (char === '/' && next === '/') {
-      index += NEXT_INDEX_STEP
-      while (index < input.length && input[index] !== '\n') {
-        index += INDEX_STEP
-      }
-    } else if (char === '/' && next === '*') {
-      index += NEXT_INDEX_STEP
-      while (index < input.length && !(input[index] === '*' && input[index + INDEX_STEP] === '/')) {
-        index += INDEX_STEP
-      }
-      index += NEXT_INDEX_STEP
-    } else {
-      output += char
-      index += INDEX_STEP
-    }
-  }
-
-  return output
-}
-
-const readJson = async <TData>(filePath: string): Promise<TData> => {
-  const contents = await readFile(filePath, 'utf8')
-  const cleaned = stripJsonComments(contents)
-  return JSON.parse(cleaned) as TData
-}
-
-const writeJson = async (filePath: string, data: unknown) => {
-  const contents = `${JSON.stringify(data, undefined, JSON_INDENT)}\n`
-  await writeFile(filePath, contents, 'utf8')
-}
-
-const writeIfMissing = async (filePath: string, contents: string, force: boolean) => {
-  if (existsSync(filePath) && !force) {
+// Reformatting alone (ex: Prettier wrapping arrays) is not drift for JSON configs.
+const isSameJson = (filePath: string, before: string | undefined, after: string) => {
+  if (before === undefined || path.extname(filePath) !== '.json') {
+    return false
+  }
+  try {
+    return Bun.deepEquals(parseJsonc(before), parseJsonc(after), true)
+  } catch {
     return false
   }
-  await writeFile(filePath, contents, 'utf8')
-  return true
 }
 
-const getPackageJson = async (dir: string) => {
-  const packagePath = path.join(dir, 'package.json')
-  if (!existsSync(packagePath)) {
-    throw new Error(`Missing package.json at ${packagePath}`)
-  }
+// One per workspace run, so a batch never mixes the writes of two workspaces.
+interface RunContext {
+  // Every write of the workspace is recorded here; --check records without touching disk.
+  changes: FileChange[]
+  checkOnly: boolean
+  force: boolean
+}
 
-  return {
-    data: await readJson<Record<string, unknown>>(packagePath),
-    path: packagePath,
+const writeOutput = async (context: RunContext, filePath: string, contents: string) => {
+  const before = existsSync(filePath) ? await readFile(filePath, 'utf8') : undefined
+  if (before === contents || isSameJson(filePath, before, contents)) {
+    return
+  }
+  context.changes.push({ after: contents, before, filePath })
+  if (!context.checkOnly) {
+    await writeFile(filePath, contents, 'utf8')
   }
 }
 
-const coerceDeps = (pkg: Record<string, unknown>) => {
-  const deps = (pkg.dependencies ?? {}) as Record<string, string>
-  const devDeps = (pkg.devDependencies ?? {}) as Record<string, string>
-  return { deps, devDeps }
+const writeJson = async (context: RunContext, filePath: string, data: unknown) => {
+  await writeOutput(context, filePath, formatJson(data))
 }
 
-const detectKind = (pkg: Record<string, unknown>): Exclude<Kind, 'auto'> => {
-  const { deps, devDeps } = coerceDeps(pkg)
-  const allDeps = new Set([...Object.keys(deps), ...Object.keys(devDeps)])
-
-  if (allDeps.has('react') || allDeps.has('react-dom') || allDeps.has('next') || allDeps.has('vite')) {
-    return 'web'
+const writeIfMissing = async (context: RunContext, filePath: string, contents: string) => {
+  if (existsSync(filePath) && !context.force) {
+    return false
   }
+  await writeOutput(context, filePath, contents)
+  return true
+}
 
-  if (typeof pkg.bin === 'string' || typeof pkg.bin === 'object') {
-    return 'cli'
+const getPackageJson = async (dir: string) => {
+  const packagePath = path.join(dir, 'package.json')
+  if (!existsSync(packagePath)) {
+    throw new Error(`Missing package.json at ${packagePath}`)
   }
 
-  if (typeof pkg.name === 'string' && pkg.name.toLowerCase().includes('cli')) {
-    return 'cli'
+  return {
+    data: await readJson<Record<string, unknown>>(packagePath),
+    path: packagePath,
   }
-
-  return 'lib'
-}
-
-const detectTailwind = (pkg: Record<string, unknown>) => {
-  const { deps, devDeps } = coerceDeps(pkg)
-  return Boolean(deps.tailwindcss || devDeps.tailwindcss)
-}
-
-const detectReact = (pkg: Record<string, unknown>) => {
-  const { deps, devDeps } = coerceDeps(pkg)
-  return Boolean(deps.react || devDeps.react)
 }
 
-const ensurePackageJson = async (dir: string, pkg: Record<string, unknown>, kind: Exclude<Kind, 'auto'>) => {
+const ensurePackageJson = async (context: RunContext, { dir, pkg, bunup, qa }: ResolvedRunOptions) => {
   const scripts = (pkg.scripts ?? {}) as Record<string, string>
   const devDependencies = (pkg.devDependencies ?? {}) as Record<string, string>
 
-  applyQaScripts(scripts, kind)
-  applyQaDevDependencies(devDependencies, kind)
-  await writePackageJson({ devDependencies, dir, pkg, scripts })
+  applyQaScripts(scripts, bunup)
+  applyQaDevDependencies(devDependencies, bunup)
+  await writePackageJson(context, { devDependencies, dir, pkg, qa, scripts })
 }
 
-const ensurePrettierConfig = async (dir: string, tailwind: boolean, force: boolean) => {
+const ensurePrettierConfig = async (context: RunContext, dir: string, tailwind: boolean) => {
   const configPath = path.join(dir, 'prettier.config.cjs')
   const target = resolvePrettierTarget(tailwind)
   const contents = `module.exports = require('${target}')\n`
-  await writeIfMissing(configPath, contents, force)
+  await writeIfMissing(context, configPath, contents)
 }
 
-const ensureOxlintConfig = async (dir: string, force: boolean) => {
+const ensureOxlintConfig = async (context: RunContext, dir: string) => {
   const configPath = path.join(dir, 'oxlint.json')
-  if (!existsSync(configPath) || force) {
+  if (!existsSync(configPath) || context.force) {
     const contents = `{
-  "$schema": "../../node_modules/oxlint/configuration_schema.json",
-  "extends": ["@bun-monorepo-template/qa/oxlint"]
+  "$schema": "${OXLINT_SCHEMA}",
+  "extends": ["${OXLINT_PRESET}"]
 }\n`
-    await writeFile(configPath, contents, 'utf8')
+    await writeOutput(context, configPath, contents)
   } else {
-    await updateOxlintConfig(configPath)
+    await updateOxlintConfig(context, configPath)
   }
 }
 
-const resolveTsconfigPreset = (kind: Exclude<Kind, 'auto'>, pkg: Record<string, unknown>) => {
-  if (kind === 'web') {
-    return '@bun-monorepo-template/qa/tsconfig/web'
+// The `test` and `worker` presets are never guessed; they come from `--tsconfig` or `qa.tsconfigPreset`.
+const resolveTsconfigPreset = (kind: Exclude<Kind, 'auto'>, pkg: Record<string, unknown>, qa: QaConfig) => {
+  let preset: TsconfigPreset = 'node'
+  if (qa.tsconfigPreset) {
+    preset = qa.tsconfigPreset
+  } else if (kind === 'web') {
+    preset = 'web'
+  } else if (detectReact(pkg)) {
+    preset = 'react-lib'
+  } else if (kind === 'lib' && detectDeclarations(pkg)) {
+    preset = 'declarations'
   }
-  const isReact = detectReact(pkg)
-  if (isReact) {
-    return '@bun-monorepo-template/qa/tsconfig/react-lib'
-  }
-  return '@bun-monorepo-template/qa/tsconfig/node'
-}
-
-interface TsconfigOptions {
-  dir: string
-  kind: Exclude<Kind, 'auto'>
-  pkg: Record<string, unknown>
-  force: boolean
+  return `@bun-monorepo-template/qa/tsconfig/${preset}`
 }
 
-const ensureTsconfig = async ({ dir, kind, pkg, force }: TsconfigOptions) => {
-  const preset = resolveTsconfigPreset(kind, pkg)
+const ensureTsconfig = async (context: RunContext, { dir, resolvedKind, pkg, qa }: ResolvedRunOptions) => {
+  const preset = resolveTsconfigPreset(resolvedKind, pkg, qa)
   const configPath = path.join(dir, 'tsconfig.json')
   if (!existsSync(configPath)) {
-    await writeJson(configPath, { extends: preset })
+    await writeJson(context, configPath, { extends: preset })
     return
   }
 
-  const existing = await readJson<Record<string, unknown>>(configPath)
-  if (force || !existing.extends) {
-    existing.extends = preset
+  // Edit in place so comments and formatting in the user's tsconfig survive.
+  const contents = await readFile(configPath, 'utf8')
+  const existing = parseJsonc<Record<string, unknown>>(contents)
+  if (context.force || !existing.extends) {
+    await writeOutput(context, configPath, setJsoncValue(contents, ['extends'], preset))
   }
-  await writeJson(configPath, existing)
 }
 
-const ensureBunupConfig = async (dir: string, kind: Exclude<Kind, 'auto'>, force: boolean) => {
-  if (kind === 'web') {
+const ensureBunupConfig = async (context: RunContext, { dir, resolvedKind: kind, bunup }: ResolvedRunOptions) => {
+  if (!bunup) {
     return
   }
 
   const configPath = path.join(dir, 'bunup.config.ts')
-  if (existsSync(configPath) && !force) {
+  if (existsSync(configPath) && !context.force) {
     return
   }
 
@@ -312,35 +329,122 @@ export default defineConfig({
 });
 `
 
-  await writeFile(configPath, contents, 'utf8')
+  await writeOutput(context, configPath, contents)
 }
 
-const main = async () => {
-  const options = parseArgs()
-  const { dir, resolvedKind, resolvedTailwind, pkg } = await resolveRunOptions(options)
+const printDiffs = (entries: FileChange[]) => {
+  for (const { filePath, before, after } of entries) {
+    const label = toDisplayPath(filePath)
+    console.log(
+      createUnifiedDiff(before ?? '', after, { fromFile: before === undefined ? undefined : label, toFile: label }),
+    )
+  }
+}
+
+const reportDrift = (dir: string, entries: FileChange[]) => {
+  if (entries.length === NO_DRIFT) {
+    console.log(`QA config is up to date in ${toDisplayPath(dir)}`)
+    return
+  }
 
-  await ensurePackageJson(dir, pkg, resolvedKind)
-  await ensurePrettierConfig(dir, resolvedTailwind, options.force)
-  await ensureOxlintConfig(dir, options.force)
-  await ensureTsconfig({ dir, force: options.force, kind: resolvedKind, pkg })
-  await ensureBunupConfig(dir, resolvedKind, options.force)
+  printDiffs(entries)
+  console.error(`QA config drift in ${entries.length} file(s); run qa:init without --check to fix`)
+  process.exitCode = EXIT_FAILURE
+}
+
+const applyQaConfig = async (context: RunContext, resolved: ResolvedRunOptions) => {
+  await ensurePackageJson(context, resolved)
+  await ensurePrettierConfig(context, resolved.dir, resolved.resolvedTailwind)
+  await ensureOxlintConfig(context, resolved.dir)
+  await ensureTsconfig(context, resolved)
+  await ensureBunupConfig(context, resolved)
+}
+
+interface WorkspaceResult {
+  resolved: ResolvedRunOptions
+  changes: FileChange[]
+}
+
+const runWorkspace = async (options: Options, dir: string): Promise<WorkspaceResult> => {
+  const context: RunContext = { changes: [], checkOnly: options.check, force: options.force }
+  const resolved = await resolveRunOptions({ ...options, dir })
+  await applyQaConfig(context, resolved)
+  return { changes: context.changes, resolved }
+}
 
+const formatTable = (rows: string[][]) => {
+  const widths = rows.reduce<number[]>(
+    (acc, row) => row.map((cell, column) => Math.max(acc[column] ?? NO_DRIFT, cell.length)),
+    [],
+  )
+  return rows.map((row) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column] ?? NO_DRIFT))
+      .join('  ')
+      .trimEnd(),
+  )
+}
+
+const formatChangedFiles = ({ changes: entries, resolved }: WorkspaceResult) =>
+  entries.map(({ filePath }) => path.relative(resolved.dir, filePath)).join(', ') || '-'
+
+const printSummary = (results: WorkspaceResult[], check: boolean) => {
+  const header = ['WORKSPACE', 'KIND', 'TAILWIND', check ? 'DRIFT' : 'CHANGED']
+  const rows = results.map((result) => [
+    toDisplayPath(result.resolved.dir),
+    result.resolved.resolvedKind,
+    result.resolved.resolvedTailwind ? 'yes' : 'no',
+    formatChangedFiles(result),
+  ])
+  console.log(formatTable([header, ...rows]).join('\n'))
+}
+
+const runBatch = async (options: Options, dirs: string[]) => {
+  const results = await Promise.all(dirs.map(async (dir) => runWorkspace(options, dir)))
+
+  const drifted = results.flatMap((result) => result.changes)
+  if (options.check) {
+    printDiffs(drifted)
+  }
+  printSummary(results, options.check)
+  if (options.check && drifted.length > NO_DRIFT) {
+    console.error(`QA config drift in ${drifted.length} file(s); run qa:init without --check to fix`)
+    process.exitCode = EXIT_FAILURE
+  }
+}
+
+const runSingle = async (options: Options) => {
+  const { changes: entries, resolved } = await runWorkspace(options, resolveDir(options))
+  if (options.check) {
+    reportDrift(resolved.dir, entries)
+    return
+  }
+  const { dir, resolvedKind, resolvedTailwind } = resolved
   console.log(`QA config applied to ${dir} (kind: ${resolvedKind}, tailwind: ${resolvedTailwind})`)
 }
 
-const applyQaScripts = (scripts: Record<string, string>, kind: Exclude<Kind, 'auto'>) => {
-  scripts.lint = 'oxlint --config oxlint.json --fix .'
-  scripts.format = 'prettier --config prettier.config.cjs --write .'
-  scripts.typecheck = 'tsc -p tsconfig.json --noEmit'
+const main = async () => {
+  const options = parseArgs()
 
-  if (kind !== 'web') {
-    scripts.build = 'bunup'
+  const dirs = await resolveBatchDirs(options)
+  if (dirs) {
+    await runBatch(options, dirs)
+    return
   }
+  await runSingle(options)
 }
 
-const applyQaDevDependencies = (devDependencies: Record<string, string>, kind: Exclude<Kind, 'auto'>) => {
+const applyQaScripts = (scripts: Record<string, string>, bunup: boolean) => {
+  Object.assign(scripts, QA_SCRIPT_COMMANDS)
+
+  if (bunup) {
+    scripts.build = BUILD_SCRIPT
+  }
+}
+
+const applyQaDevDependencies = (devDependencies: Record<string, string>, bunup: boolean) => {
   devDependencies['@bun-monorepo-template/qa'] = 'workspace:*'
-  if (kind !== 'web') {
+  if (bunup) {
     devDependencies.bunup = 'latest'
   }
 }
@@ -348,14 +452,19 @@ const applyQaDevDependencies = (devDependencies: Record<string, string>, kind: E
 interface PackageJsonUpdate {
   dir: string
   pkg: Record<string, unknown>
+  qa: QaConfig
   scripts: Record<string, string>
   devDependencies: Record<string, string>
 }
 
-const writePackageJson = async ({ dir, pkg, scripts, devDependencies }: PackageJsonUpdate) => {
+// A check compares against the stored `qa` block, so its own flags are never reported as drift.
+const writePackageJson = async (context: RunContext, { dir, pkg, qa, scripts, devDependencies }: PackageJsonUpdate) => {
   pkg.scripts = scripts
   pkg.devDependencies = devDependencies
-  await writeJson(path.join(dir, 'package.json'), pkg)
+  if (!context.checkOnly && Object.keys(qa).length > NO_DRIFT) {
+    pkg.qa = qa
+  }
+  await writeJson(context, path.join(dir, 'package.json'), pkg)
 }
 
 const resolvePrettierTarget = (tailwind: boolean) => {
@@ -366,27 +475,24 @@ const resolvePrettierTarget = (tailwind: boolean) => {
   return target
 }
 
-const updateOxlintConfig = async (configPath: string) => {
-  const config = await readJson<Record<string, unknown>>(configPath)
-  const extendsField = coerceExtendsField(config.extends)
-
-  if (!extendsField.includes('@bun-monorepo-template/qa/oxlint')) {
-    extendsField.push('@bun-monorepo-template/qa/oxlint')
+const addOxlintPreset = (contents: string, value: unknown) => {
+  if (Array.isArray(value)) {
+    return appendJsoncValue(contents, ['extends'], OXLINT_PRESET)
   }
-
-  config.$schema = '../../node_modules/oxlint/configuration_schema.json'
-  config.extends = extendsField
-  await writeJson(configPath, config)
+  return setJsoncValue(contents, ['extends'], [...coerceExtendsField(value), OXLINT_PRESET])
 }
 
-const coerceExtendsField = (value: unknown) => {
-  if (Array.isArray(value)) {
-    return value as string[]
+const updateOxlintConfig = async (context: RunContext, configPath: string) => {
+  let contents = await readFile(configPath, 'utf8')
+  const config = parseJsonc<Record<string, unknown>>(contents)
+
+  if (config.$schema !== OXLINT_SCHEMA) {
+    contents = setJsoncValue(contents, ['$schema'], OXLINT_SCHEMA)
   }
-  if (typeof value === 'string') {
-    return [value]
+  if (!coerceExtendsField(config.extends).includes(OXLINT_PRESET)) {
+    contents = addOxlintPreset(contents, config.extends)
   }
-  return []
+  await writeOutput(context, configPath, contents)
 }
 
 const buildBunupFormat = (isLib: boolean) => {
@@ -407,23 +513,33 @@ interface ResolvedRunOptions {
   dir: string
   resolvedKind: Exclude<Kind, 'auto'>
   resolvedTailwind: boolean
+  bunup: boolean
   pkg: Record<string, unknown>
+  // The package.json `qa` block merged with the flags of this run, written back to package.json unless checking.
+  qa: QaConfig
 }
 
-const resolveRunOptions = async (options: Options): Promise<ResolvedRunOptions> => {
-  const dir = resolveDir(options)
-  await ensureDirExists(dir)
+// Flags passed on the command line are persisted so the next run does not need them.
+const mergeQaFlags = (qa: QaConfig, options: Options): QaConfig => ({
+  ...qa,
+  ...(options.kind === 'auto' ? {} : { kind: options.kind }),
+  ...(options.tailwind === undefined ? {} : { tailwind: options.tailwind }),
+  ...(options.tsconfigPreset === undefined ? {} : { tsconfigPreset: options.tsconfigPreset }),
+})
+
+const resolveRunOptions = async (options: Options & { dir: string }): Promise<ResolvedRunOptions> => {
+  const { dir } = options
+  await ensureDirExists(dir, options.check)
 
   const { data: pkg } = await getPackageJson(dir)
-  const resolvedKind = resolveKind(options.kind, pkg)
-  const resolvedTailwind = resolveTailwind(options.tailwind, pkg, resolvedKind)
+  const qa = mergeQaFlags(readQaConfig(pkg), options)
+  const resolvedKind = resolveKind(qa.kind ?? 'auto', pkg)
+  const resolvedTailwind = resolveTailwind(qa.tailwind, pkg, resolvedKind)
+  const bunup = qa.bunup ?? resolvedKind !== 'web'
 
-  return { dir, pkg, resolvedKind, resolvedTailwind }
+  return { bunup, dir, pkg, qa, resolvedKind, resolvedTailwind }
 }
 
-const REPO_ROOT = path.resolve(import.meta.dir, '../../..')
-const QA_CWD = path.join(REPO_ROOT, 'packages', 'qa')
-
 const resolveDir = (options: Options) => {
   if (!options.dir) {
     console.error('Missing --dir')
@@ -431,22 +547,37 @@ const resolveDir = (options: Options) => {
     process.exit(EXIT_FAILURE)
   }
 
-  if (path.isAbsolute(options.dir)) {
-    return options.dir
-  }
+  return resolveTargetDir(options.dir)
+}
 
-  const cwd = process.cwd()
-  if (cwd === QA_CWD || cwd.startsWith(`${QA_CWD}${path.sep}`)) {
-    return path.resolve(REPO_ROOT, options.dir)
-  }
+// Running qa:init on the QA package would make it depend on itself, so it is never part of a batch.
+const isQaPackage = (dir: string) => path.resolve(dir) === QA_CWD
 
-  return path.resolve(cwd, options.dir)
+const expandWorkspaceGlobs = async (patterns: string[], baseDir: string) => {
+  const matches = await Promise.all(patterns.map((pattern) => expandWorkspaceGlob(pattern, baseDir)))
+  return [...new Set(matches.flat())].filter((dir) => !isQaPackage(dir)).toSorted()
 }
 
-const ensureDirExists = async (dir: string) => {
-  if (!existsSync(dir)) {
-    await ensureDir(dir)
+/** Returns the workspaces of a --all or glob --dir run, or undefined for a single workspace. */
+const resolveBatchDirs = async (options: Options) => {
+  if (options.all) {
+    return expandWorkspaceGlobs(await readWorkspacePatterns(), REPO_ROOT)
+  }
+  if (options.dir && isGlob(options.dir)) {
+    return expandWorkspaceGlobs([options.dir], resolveBaseDir())
   }
+  return undefined
+}
+
+// A check must not touch disk, so a missing workspace is an error rather than something to create.
+const ensureDirExists = async (dir: string, checkOnly: boolean) => {
+  if (existsSync(dir)) {
+    return
+  }
+  if (checkOnly) {
+    throw new Error(`Missing directory: ${toDisplayPath(dir)}`)
+  }
+  await ensureDir(dir)
 }
 
 const resolveKind = (kind: Kind, pkg: Record<string, unknown>) => {
@@ -463,11 +594,4 @@ const resolveTailwind = (tailwind: boolean | undefined, pkg: Record<string, unkn
   return detectTailwind(pkg) || kind === 'web'
 }
 
-main().catch((error) => {
-  let message = String(error)
-  if (error instanceof Error) {
-    ;({ message } = error)
-  }
-  console.error(message)
-  process.exit(EXIT_FAILURE)
-})
+main().catch(exitWithError)
@@ -0,0 +1,349 @@
+#!/usr/bin/env bun
+import { readFile, writeFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import path from 'node:path'
+import { QA_PACKAGE, type PackageJson } from '../src/detect'
+import { parseJsonc, removeJsoncValue, setJsoncValue } from '../src/jsonc'
+import {
+  BUILD_SCRIPT,
+  coerceExtendsField,
+  EXIT_FAILURE,
+  EXIT_SUCCESS,
+  exitWithError,
+  formatJson,
+  JSON_INDENT,
+  OXLINT_PRESET,
+  QA_CWD,
+  QA_SCRIPT_COMMANDS,
+  readJson,
+  resolveTargetDir,
+  toDisplayPath,
+} from './shared'
+
+const USAGE = `
+Usage:
+  bun run --cwd packages/qa qa:uninstall --dir <path> [--inline]
+  bun run --cwd packages/qa qa:uninstall <path> [--inline]
+
+Removes the scripts and the ${QA_PACKAGE} devDependency added by qa:init.
+--inline copies the resolved presets into tsconfig.json, oxlint.json and prettier.config.cjs
+(and adds the tools they need as devDependencies) so the package can leave the monorepo.
+
+Examples:
+  bun run --cwd packages/qa qa:uninstall packages/core
+  bun run --cwd packages/qa qa:uninstall --dir packages/core --inline
+`
+
+interface Options {
+  dir?: string
+  inline: boolean
+}
+
+interface QaManifest {
+  exports: Record<string, string>
+  devDependencies: Record<string, string>
+}
+
+interface TsconfigFile {
+  extends?: unknown
+  compilerOptions?: Record<string, unknown>
+  include?: string[]
+  exclude?: string[]
+}
+
+/** A preset with its `extends` chain applied. */
+interface ResolvedTsconfig {
+  compilerOptions: Record<string, unknown>
+  include?: string[]
+  exclude?: string[]
+}
+
+const ARGV_START_INDEX = 2
+const INDEX_STEP = 1
+const NEXT_INDEX_STEP = 2
+const MULTIPLE = 2
+const NO_ITEMS = 0
+const TOOL_DEPENDENCIES = ['oxlint', 'prettier', 'typescript']
+const PRETTIER_REQUIRE = /require\((?<quote>['"])(?<specifier>@bun-monorepo-template\/qa\/prettier[\w-]*)\k<quote>\)/
+const CONFIG_FILES = ['tsconfig.json', 'oxlint.json', 'prettier.config.cjs']
+
+const requirePreset = createRequire(import.meta.url)
+
+type ArgHandler = (args: string[], index: number, options: Options) => number
+
+const handleDirFlag = (args: string[], index: number, options: Options) => {
+  options.dir = args[index + INDEX_STEP]
+  return index + NEXT_INDEX_STEP
+}
+
+const handleInlineFlag = (_args: string[], index: number, options: Options) => {
+  options.inline = true
+  return index + INDEX_STEP
+}
+
+const handleHelpFlag = (_args: string[], index: number, _options: Options) => {
+  console.log(USAGE.trim())
+  process.exit(EXIT_SUCCESS)
+  return index
+}
+
+const argHandlers: Record<string, ArgHandler> = {
+  '--dir': handleDirFlag,
+  '--help': handleHelpFlag,
+  '--inline': handleInlineFlag,
+  '-h': handleHelpFlag,
+}
+
+const consumeArg = (args: string[], index: number, options: Options) => {
+  const arg = args[index] ?? ''
+  if (!arg.startsWith('--') && arg !== '-h' && !options.dir) {
+    options.dir = arg
+    return index + INDEX_STEP
+  }
+  const handler = argHandlers[arg]
+  if (!handler) {
+    throw new Error(`Unknown option: ${arg}`)
+  }
+  return handler(args, index, options)
+}
+
+const parseArgs = (): Options => {
+  const args = process.argv.slice(ARGV_START_INDEX)
+  const options: Options = { inline: false }
+  let index = 0
+  while (index < args.length) {
+    index = consumeArg(args, index, options)
+  }
+  return options
+}
+
+const resolveDir = (options: Options) => {
+  if (!options.dir) {
+    console.error('Missing --dir')
+    console.log(USAGE.trim())
+    process.exit(EXIT_FAILURE)
+  }
+  return resolveTargetDir(options.dir)
+}
+
+const isQaPreset = (specifier: unknown): specifier is string =>
+  typeof specifier === 'string' && specifier.startsWith(`${QA_PACKAGE}/`)
+
+// Presets are addressed through the QA package exports (ex: `./tsconfig/node`).
+const resolvePresetPath = (specifier: string, manifest: QaManifest) => {
+  const target = manifest.exports[`.${specifier.slice(QA_PACKAGE.length)}`]
+  if (!target) {
+    throw new Error(`Unknown QA preset: ${specifier}`)
+  }
+  return path.join(QA_CWD, target)
+}
+
+const toRelativeImport = (fromDir: string, target: string) => {
+  const relative = path.relative(fromDir, target).split(path.sep).join('/')
+  return relative.startsWith('.') ? relative : `./${relative}`
+}
+
+// `paths` entries are relative to the tsconfig that declares them, so they move with the options.
+// Aliases into the QA package itself are dropped: the package no longer depends on it.
+const rebasePaths = (options: Record<string, unknown>, presetDir: string, targetDir: string) => {
+  const { paths, ...rest } = options as { paths?: Record<string, string[]> }
+  const rebased = Object.entries(paths ?? {})
+    .filter(([alias]) => !alias.startsWith(QA_PACKAGE))
+    .map(([alias, targets]) => [
+      alias,
+      targets.map((target) => toRelativeImport(targetDir, path.resolve(presetDir, target))),
+    ])
+  return rebased.length === NO_ITEMS ? rest : { ...rest, paths: Object.fromEntries(rebased) }
+}
+
+// `include`/`exclude` use `${configDir}`, so they stay valid once copied into the workspace.
+const pickFileLists = ({ include, exclude }: TsconfigFile) => ({
+  ...(include ? { include } : {}),
+  ...(exclude ? { exclude } : {}),
+})
+
+const loadTsconfigPreset = async (filePath: string, targetDir: string): Promise<ResolvedTsconfig> => {
+  const config = await readJson<TsconfigFile>(filePath)
+  const options = rebasePaths(config.compilerOptions ?? {}, path.dirname(filePath), targetDir)
+  if (typeof config.extends !== 'string') {
+    return { compilerOptions: options, ...pickFileLists(config) }
+  }
+  const parent = await loadTsconfigPreset(path.resolve(path.dirname(filePath), config.extends), targetDir)
+  return { ...parent, ...pickFileLists(config), compilerOptions: { ...parent.compilerOptions, ...options } }
+}
+
+const FILE_LIST_KEYS = ['include', 'exclude'] as const
+
+const inlineFileLists = (contents: string, config: TsconfigFile, preset: ResolvedTsconfig) =>
+  FILE_LIST_KEYS.filter((key) => config[key] === undefined && preset[key] !== undefined).reduce(
+    (acc, key) => setJsoncValue(acc, [key], preset[key]),
+    contents,
+  )
+
+const toTypesPackages = (types: unknown) =>
+  Array.isArray(types) ? types.map((name) => `@types/${String(name)}`) : ([] as string[])
+
+const readConfigFile = async (configPath: string) => (existsSync(configPath) ? readFile(configPath, 'utf8') : undefined)
+
+/**
+ * Copies the preset compilerOptions (and `include`/`exclude`) the local tsconfig does not set;
+ * returns the `@types/*` it needs.
+ */
+const inlineTsconfig = async (dir: string, manifest: QaManifest) => {
+  const configPath = path.join(dir, 'tsconfig.json')
+  const contents = await readConfigFile(configPath)
+  const config = parseJsonc<TsconfigFile>(contents ?? '{}')
+  if (contents === undefined || !isQaPreset(config.extends)) {
+    return toTypesPackages(config.compilerOptions?.types)
+  }
+
+  const preset = await loadTsconfigPreset(resolvePresetPath(config.extends, manifest), dir)
+  const inlined = Object.entries(preset.compilerOptions)
+    .filter(([key]) => config.compilerOptions?.[key] === undefined)
+    .reduce((acc, [key, value]) => setJsoncValue(acc, ['compilerOptions', key], value), contents)
+  await writeFile(configPath, removeJsoncValue(inlineFileLists(inlined, config, preset), ['extends']), 'utf8')
+  return toTypesPackages({ ...preset.compilerOptions, ...config.compilerOptions }.types)
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+interface OxlintField {
+  key: string
+  local: unknown
+  preset: unknown
+}
+
+// Local settings win, the way they did while the preset was extended.
+const mergeOxlintField = (contents: string, { key, local, preset }: OxlintField) => {
+  if (local === undefined) {
+    return setJsoncValue(contents, [key], preset)
+  }
+  if (isPlainObject(local) && isPlainObject(preset)) {
+    return Object.entries(preset)
+      .filter(([name]) => local[name] === undefined)
+      .reduce((acc, [name, value]) => setJsoncValue(acc, [key, name], value), contents)
+  }
+  if (Array.isArray(local) && Array.isArray(preset)) {
+    // Preset entries (ex: overrides) go first so the local ones still take precedence.
+    const missing = preset.filter((item) => !local.some((existing) => Bun.deepEquals(existing, item)))
+    return missing.length > NO_ITEMS ? setJsoncValue(contents, [key], [...missing, ...local]) : contents
+  }
+  return contents
+}
+
+const removeOxlintPreset = (contents: string, extendsValue: unknown) => {
+  const extendsField = coerceExtendsField(extendsValue)
+  if (Array.isArray(extendsValue) && extendsField.length >= MULTIPLE) {
+    return removeJsoncValue(contents, ['extends', extendsField.indexOf(OXLINT_PRESET)])
+  }
+  return removeJsoncValue(contents, ['extends'])
+}
+
+const inlineOxlint = async (dir: string, manifest: QaManifest) => {
+  const configPath = path.join(dir, 'oxlint.json')
+  const contents = await readConfigFile(configPath)
+  const config = parseJsonc<Record<string, unknown>>(contents ?? '{}')
+  if (contents === undefined || !coerceExtendsField(config.extends).includes(OXLINT_PRESET)) {
+    return
+  }
+
+  const { $schema: _schema, ...preset } = await readJson<Record<string, unknown>>(
+    resolvePresetPath(OXLINT_PRESET, manifest),
+  )
+  const merged = Object.entries(preset).reduce(
+    (acc, [key, value]) => mergeOxlintField(acc, { key, local: config[key], preset: value }),
+    removeOxlintPreset(contents, config.extends),
+  )
+  await writeFile(configPath, merged, 'utf8')
+}
+
+/** Replaces `require('<preset>')` with the resolved config; returns the Prettier plugins it uses. */
+const inlinePrettier = async (dir: string, manifest: QaManifest) => {
+  const configPath = path.join(dir, 'prettier.config.cjs')
+  const contents = await readConfigFile(configPath)
+  const specifier = contents === undefined ? undefined : PRETTIER_REQUIRE.exec(contents)?.groups?.specifier
+  if (contents === undefined || !specifier) {
+    return []
+  }
+
+  const config = requirePreset(resolvePresetPath(specifier, manifest)) as { plugins?: string[] }
+  await writeFile(
+    configPath,
+    contents.replace(PRETTIER_REQUIRE, JSON.stringify(config, undefined, JSON_INDENT)),
+    'utf8',
+  )
+  return config.plugins ?? []
+}
+
+const inlinePresets = async (dir: string) => {
+  const manifest = await readJson<QaManifest>(path.join(QA_CWD, 'package.json'))
+  const types = await inlineTsconfig(dir, manifest)
+  await inlineOxlint(dir, manifest)
+  const plugins = await inlinePrettier(dir, manifest)
+
+  const names = [...TOOL_DEPENDENCIES, ...plugins, ...types]
+  return Object.fromEntries(names.map((name) => [name, manifest.devDependencies[name] ?? 'latest']))
+}
+
+const splitQaScripts = (scripts: Record<string, string>) => {
+  const added: Record<string, string> = { ...QA_SCRIPT_COMMANDS, build: BUILD_SCRIPT }
+  const entries = Object.entries(scripts)
+  return {
+    customised: entries.filter(([name, command]) => added[name] && added[name] !== command).map(([name]) => name),
+    kept: Object.fromEntries(entries.filter(([name, command]) => added[name] !== command)),
+    removed: entries.filter(([name, command]) => added[name] === command).map(([name]) => name),
+  }
+}
+
+const withoutEmpty = (pkg: PackageJson, field: string, value: Record<string, string>) => {
+  const { [field]: _previous, ...rest } = pkg
+  return Object.keys(value).length === NO_ITEMS ? rest : { ...rest, [field]: value }
+}
+
+const detachPackageJson = async (dir: string, tools: Record<string, string>) => {
+  const pkgPath = path.join(dir, 'package.json')
+  const { qa: _qa, ...pkg } = await readJson<PackageJson>(pkgPath)
+  const { [QA_PACKAGE]: _removed, ...devDependencies } = (pkg.devDependencies ?? {}) as Record<string, string>
+  const dependencies = (pkg.dependencies ?? {}) as Record<string, string>
+  const missingTools = Object.entries(tools).filter(([name]) => !dependencies[name] && !devDependencies[name])
+  const split = splitQaScripts((pkg.scripts ?? {}) as Record<string, string>)
+
+  const withScripts = withoutEmpty(pkg, 'scripts', split.kept)
+  const next = withoutEmpty(withScripts, 'devDependencies', { ...devDependencies, ...Object.fromEntries(missingTools) })
+  await writeFile(pkgPath, formatJson(next), 'utf8')
+  return split
+}
+
+const findPresetReferences = async (dir: string) => {
+  const files = CONFIG_FILES.filter((file) => existsSync(path.join(dir, file)))
+  const contents = await Promise.all(files.map((file) => readFile(path.join(dir, file), 'utf8')))
+  return files.filter((_file, index) => contents[index]?.includes(QA_PACKAGE))
+}
+
+const reportDetached = async (dir: string, { customised, removed }: { customised: string[]; removed: string[] }) => {
+  console.log(`QA wiring removed from ${toDisplayPath(dir)} (scripts: ${removed.join(', ') || 'none'})`)
+  if (customised.length > NO_ITEMS) {
+    console.log(`Kept customised scripts: ${customised.join(', ')}`)
+  }
+
+  const references = await findPresetReferences(dir)
+  if (references.length > NO_ITEMS) {
+    console.warn(`${references.join(', ')} still use ${QA_PACKAGE} presets; rerun with --inline to copy them`)
+  }
+}
+
+const main = async () => {
+  const options = parseArgs()
+  const dir = resolveDir(options)
+  const pkgPath = path.join(dir, 'package.json')
+  if (!existsSync(pkgPath)) {
+    throw new Error(`Missing package.json at ${pkgPath}`)
+  }
+
+  const tools = options.inline ? await inlinePresets(dir) : {}
+  await reportDetached(dir, await detachPackageJson(dir, tools))
+}
+
+main().catch(exitWithError)
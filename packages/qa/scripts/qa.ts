@@ -0,0 +1,336 @@
+#!/usr/bin/env bun
+import { existsSync } from 'node:fs'
+import path from 'node:path'
+import {
+  formatDiagnostic,
+  formatSummary,
+  parseOxlintJson,
+  parsePrettierOutput,
+  parseTscOutput,
+  toJUnit,
+  type Diagnostic,
+  type QaMode,
+  type QaReport,
+  type QaTool,
+  type ToolResult,
+  type WorkspaceReport,
+} from '../src/report'
+import { writeArtifact, writeJsonArtifact } from '../src/testkit'
+import {
+  EXIT_FAILURE,
+  EXIT_SUCCESS,
+  exitWithError,
+  expandWorkspaceGlob,
+  isGlob,
+  readJson,
+  readWorkspacePatterns,
+  REPO_ROOT,
+  resolveBaseDir,
+  resolveTargetDir,
+  toDisplayPath,
+} from './shared'
+
+const USAGE = `
+Usage:
+  bun run qa [--check | --fix | --ci] [--only oxlint,tsc,prettier] [<workspace path or glob>...]
+
+Runs oxlint, tsc and prettier in every workspace (or the given ones), keeps going after a failure
+and prints one summary. Reports are written to output/qa/report.json and output/qa/junit.xml.
+
+Options:
+  --check   report problems without touching files (default)
+  --fix     apply oxlint fixes and prettier formatting, then report what is left
+  --ci      like --check, but through each workspace's lint:check, typecheck and format:check
+            scripts (when it has them); never writes files and fails on any difference
+  --only    run a subset of the tools
+
+Examples:
+  bun run qa
+  bun run qa --fix
+  bun run qa --ci
+  bun run qa --only tsc packages/core 'apps/*'
+`
+
+interface Options {
+  mode: QaMode
+  tools: QaTool[]
+  targets: string[]
+}
+
+interface Workspace {
+  dir: string
+  scripts: Record<string, string>
+}
+
+interface ToolOutput {
+  stdout: string
+  stderr: string
+  exitCode: number
+}
+
+interface ToolSpec {
+  tool: QaTool
+  /** Candidate config files, relative to the workspace; the first one that exists is used. */
+  configs: string[]
+  args: (config: string, mode: QaMode) => string[]
+  /** Workspace script used by `--ci`, and the flags appended to it so the output can be parsed. */
+  ciScript: string
+  ciArgs: string[]
+  /** Returns undefined for output it cannot parse; the run then fails with the raw output. */
+  parse: (output: ToolOutput, toFile: (file: string) => string, mode: QaMode) => Diagnostic[] | undefined
+}
+
+const ARGV_START_INDEX = 2
+const INDEX_STEP = 1
+const NEXT_INDEX_STEP = 2
+const MS_PER_SECOND = 1000
+const DURATION_PRECISION = 1
+const NO_ITEMS = 0
+const TOOLS: QaTool[] = ['oxlint', 'tsc', 'prettier']
+const REPORT_TYPE = 'qa'
+
+const PRETTIER_MODE_ARGS: Record<QaMode, string[]> = {
+  check: ['--list-different'],
+  ci: ['--check'],
+  fix: ['--write', '--list-different'],
+}
+
+const TOOL_SPECS: Record<QaTool, ToolSpec> = {
+  oxlint: {
+    args: (config, mode) => [
+      'oxlint',
+      '--config',
+      config,
+      '--format',
+      'json',
+      ...(mode === 'fix' ? ['--fix'] : []),
+      '.',
+    ],
+    ciArgs: ['--format', 'json'],
+    ciScript: 'lint:check',
+    configs: ['oxlint.json', 'oxlint/oxlint.json', '.oxlintrc.json'],
+    parse: ({ stdout }, toFile) => parseOxlintJson(stdout, toFile),
+    tool: 'oxlint',
+  },
+  prettier: {
+    args: (config, mode) => ['prettier', '--config', config, ...PRETTIER_MODE_ARGS[mode], '.'],
+    ciArgs: [],
+    ciScript: 'format:check',
+    configs: ['prettier.config.cjs', 'prettier/prettier.config.cjs', '.prettierrc', '.prettierrc.json'],
+    // With --write the listed files were just formatted; --check reports its files on stderr instead.
+    parse: ({ stdout, stderr }, toFile, mode) => parsePrettierOutput(mode === 'check' ? stdout : '', stderr, toFile),
+    tool: 'prettier',
+  },
+  tsc: {
+    args: (config) => ['tsc', '-p', config, '--noEmit', '--pretty', 'false'],
+    ciArgs: ['--pretty', 'false'],
+    ciScript: 'typecheck',
+    configs: ['tsconfig.json'],
+    parse: ({ stdout }, toFile) => parseTscOutput(stdout, toFile),
+    tool: 'tsc',
+  },
+}
+
+type ArgHandler = (args: string[], index: number, options: Options) => number
+
+const handleModeFlag = (mode: QaMode) => (_args: string[], index: number, options: Options) => {
+  options.mode = mode
+  return index + INDEX_STEP
+}
+
+const isTool = (value: string): value is QaTool => TOOLS.includes(value as QaTool)
+
+const handleOnlyFlag = (args: string[], index: number, options: Options) => {
+  const tools = (args[index + INDEX_STEP] ?? '').split(',').filter(Boolean)
+  const unknown = tools.filter((tool) => !isTool(tool))
+  if (tools.length === NO_ITEMS || unknown.length > NO_ITEMS) {
+    throw new Error(`Invalid --only: ${unknown.join(', ') || '(missing)'} (expected ${TOOLS.join(', ')})`)
+  }
+  options.tools = TOOLS.filter((tool) => tools.includes(tool))
+  return index + NEXT_INDEX_STEP
+}
+
+const handleHelpFlag = (_args: string[], index: number, _options: Options) => {
+  console.log(USAGE.trim())
+  process.exit(EXIT_SUCCESS)
+  return index
+}
+
+const argHandlers: Record<string, ArgHandler> = {
+  '--check': handleModeFlag('check'),
+  '--ci': handleModeFlag('ci'),
+  '--fix': handleModeFlag('fix'),
+  '--help': handleHelpFlag,
+  '--only': handleOnlyFlag,
+  '-h': handleHelpFlag,
+}
+
+const consumeArg = (args: string[], index: number, options: Options) => {
+  const arg = args[index] ?? ''
+  const handler = argHandlers[arg]
+  if (handler) {
+    return handler(args, index, options)
+  }
+  if (arg.startsWith('-')) {
+    throw new Error(`Unknown option: ${arg}`)
+  }
+  options.targets.push(arg)
+  return index + INDEX_STEP
+}
+
+const parseArgs = (): Options => {
+  const args = process.argv.slice(ARGV_START_INDEX)
+  const options: Options = { mode: 'check', targets: [], tools: [...TOOLS] }
+  let index = 0
+  while (index < args.length) {
+    index = consumeArg(args, index, options)
+  }
+  return options
+}
+
+const resolveTarget = async (target: string) => {
+  if (isGlob(target)) {
+    return expandWorkspaceGlob(target, resolveBaseDir())
+  }
+  const dir = resolveTargetDir(target)
+  if (!existsSync(path.join(dir, 'package.json'))) {
+    throw new Error(`Missing package.json at ${path.join(dir, 'package.json')}`)
+  }
+  return [dir]
+}
+
+const expandAllWorkspaces = async () => {
+  const patterns = await readWorkspacePatterns()
+  return Promise.all(patterns.map((pattern) => expandWorkspaceGlob(pattern, REPO_ROOT)))
+}
+
+const resolveWorkspaceDirs = async (targets: string[]) => {
+  const matches =
+    targets.length > NO_ITEMS
+      ? await Promise.all(targets.map((target) => resolveTarget(target)))
+      : await expandAllWorkspaces()
+  return [...new Set(matches.flat())].toSorted()
+}
+
+// Tools share the CPU and print progress in order, so they run one at a time.
+const runSequentially = async <TItem, TResult>(items: TItem[], run: (item: TItem) => Promise<TResult>) => {
+  const results: TResult[] = []
+  for (const item of items) {
+    // eslint-disable-next-line no-await-in-loop
+    results.push(await run(item))
+  }
+  return results
+}
+
+const spawnTool = async (command: string[], cwd: string): Promise<ToolOutput> => {
+  const proc = Bun.spawn(command, { cwd, stderr: 'pipe', stdout: 'pipe' })
+  const [exitCode, stdout, stderr] = await Promise.all([
+    proc.exited,
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ])
+  return { exitCode, stderr, stdout }
+}
+
+// Workspaces that were set up before `lint:check`/`format:check` existed are checked directly.
+const resolveCommand = (spec: ToolSpec, { dir, scripts }: Workspace, mode: QaMode) => {
+  if (mode === 'ci' && scripts[spec.ciScript]) {
+    return ['bun', 'run', spec.ciScript, ...spec.ciArgs]
+  }
+  const config = spec.configs.find((candidate) => existsSync(path.join(dir, candidate)))
+  return config ? ['bunx', ...spec.args(config, mode)] : undefined
+}
+
+const runTool = async (spec: ToolSpec, workspace: Workspace, mode: QaMode): Promise<ToolResult> => {
+  const command = resolveCommand(spec, workspace, mode)
+  if (!command) {
+    return { diagnostics: [], durationMs: NO_ITEMS, status: 'skipped', tool: spec.tool }
+  }
+
+  const { dir } = workspace
+  const startedAt = performance.now()
+  const output = await spawnTool(command, dir)
+  const diagnostics = spec.parse(output, (file) => toDisplayPath(path.resolve(dir, file)), mode)
+  const failed = output.exitCode !== EXIT_SUCCESS || diagnostics === undefined
+  const result: ToolResult = {
+    diagnostics: diagnostics ?? [],
+    durationMs: Math.round(performance.now() - startedAt),
+    status: failed ? 'failed' : 'passed',
+    tool: spec.tool,
+  }
+  return failed && result.diagnostics.length === NO_ITEMS
+    ? { ...result, output: (output.stderr || output.stdout).trim() }
+    : result
+}
+
+const formatProgress = (workspacePath: string, result: ToolResult) => {
+  const seconds = (result.durationMs / MS_PER_SECOND).toFixed(DURATION_PRECISION)
+  const label = result.status === 'passed' ? 'ok' : result.status
+  return `[${workspacePath}] ${result.tool} ${label}${result.status === 'skipped' ? ' (no config)' : ` (${seconds}s)`}`
+}
+
+const runWorkspace = async (dir: string, options: Options): Promise<WorkspaceReport> => {
+  const { name, scripts = {} } = await readJson<{ name?: string; scripts?: Record<string, string> }>(
+    path.join(dir, 'package.json'),
+  )
+  const workspacePath = toDisplayPath(dir)
+  const tools = await runSequentially(options.tools, async (tool) => {
+    const result = await runTool(TOOL_SPECS[tool], { dir, scripts }, options.mode)
+    console.log(formatProgress(workspacePath, result))
+    return result
+  })
+  return { name: name ?? path.basename(dir), path: workspacePath, tools }
+}
+
+const printDiagnostics = (report: QaReport) => {
+  for (const workspace of report.workspaces) {
+    for (const result of workspace.tools) {
+      const lines = result.diagnostics.map((diagnostic) => formatDiagnostic(diagnostic))
+      if (result.output) {
+        lines.push(`${result.tool} failed in ${workspace.path}:\n${result.output}`)
+      }
+      if (lines.length > NO_ITEMS) {
+        console.log(`\n${lines.join('\n')}`)
+      }
+    }
+  }
+}
+
+const writeReports = async (report: QaReport) => {
+  const jsonPath = await writeJsonArtifact({
+    data: report,
+    filename: 'report.json',
+    start: REPO_ROOT,
+    type: REPORT_TYPE,
+  })
+  const junitPath = await writeArtifact({
+    contents: toJUnit(report),
+    filename: 'junit.xml',
+    start: REPO_ROOT,
+    type: REPORT_TYPE,
+  })
+  console.log(`Reports: ${toDisplayPath(jsonPath)}, ${toDisplayPath(junitPath)}`)
+}
+
+const main = async () => {
+  const options = parseArgs()
+  const dirs = await resolveWorkspaceDirs(options.targets)
+  const startedAt = new Date()
+
+  const workspaces = await runSequentially(dirs, (dir) => runWorkspace(dir, options))
+  const report: QaReport = {
+    durationMs: Date.now() - startedAt.getTime(),
+    mode: options.mode,
+    startedAt: startedAt.toISOString(),
+    workspaces,
+  }
+
+  printDiagnostics(report)
+  console.log(`\n${formatSummary(report, options.tools)}`)
+  await writeReports(report)
+  if (workspaces.some((workspace) => workspace.tools.some((result) => result.status === 'failed'))) {
+    process.exitCode = EXIT_FAILURE
+  }
+}
+
+main().catch(exitWithError)
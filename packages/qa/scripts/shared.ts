@@ -0,0 +1,106 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { parseJsonc } from '../src/jsonc'
+
+// Helpers shared by qa, qa:init and qa:uninstall.
+
+export const REPO_ROOT = path.resolve(import.meta.dir, '../../..')
+export const QA_CWD = path.join(REPO_ROOT, 'packages', 'qa')
+
+export const EXIT_SUCCESS = 0
+export const EXIT_FAILURE = 1
+export const JSON_INDENT = 2
+const FIRST_SEGMENT = 0
+
+export const OXLINT_SCHEMA = '../../node_modules/oxlint/configuration_schema.json'
+export const OXLINT_PRESET = '@bun-monorepo-template/qa/oxlint'
+
+/** Scripts written by qa:init; qa:uninstall only removes them while they still match. */
+export const QA_SCRIPT_COMMANDS: Record<string, string> = {
+  format: 'prettier --config prettier.config.cjs --write .',
+  'format:check': 'prettier --config prettier.config.cjs --check .',
+  lint: 'oxlint --config oxlint.json --fix .',
+  'lint:check': 'oxlint --config oxlint.json .',
+  typecheck: 'tsc -p tsconfig.json --noEmit',
+}
+
+export const BUILD_SCRIPT = 'bunup'
+
+export const readJson = async <TData>(filePath: string): Promise<TData> =>
+  parseJsonc<TData>(await readFile(filePath, 'utf8'))
+
+export const formatJson = (data: unknown) => `${JSON.stringify(data, undefined, JSON_INDENT)}\n`
+
+export const coerceExtendsField = (value: unknown) => {
+  if (Array.isArray(value)) {
+    return value as string[]
+  }
+  if (typeof value === 'string') {
+    return [value]
+  }
+  return []
+}
+
+// Paths passed from `bun run --cwd packages/qa ...` are relative to the repo root.
+export const resolveBaseDir = () => {
+  const cwd = process.cwd()
+  if (cwd === QA_CWD || cwd.startsWith(`${QA_CWD}${path.sep}`)) {
+    return REPO_ROOT
+  }
+  return cwd
+}
+
+export const resolveTargetDir = (dir: string) => {
+  if (path.isAbsolute(dir)) {
+    return dir
+  }
+  return path.resolve(resolveBaseDir(), dir)
+}
+
+const GLOB_CHARS = /[*?[\]{}]/
+
+export const isGlob = (value: string) => GLOB_CHARS.test(value)
+
+/**
+ * Expands a workspace glob (ex: `packages/*`) into the matching directories that have a
+ * package.json. The literal leading segments become the scan root so absolute globs work too.
+ */
+export const expandWorkspaceGlob = async (pattern: string, baseDir: string) => {
+  const segments = path.resolve(baseDir, pattern).split(path.sep)
+  const firstGlob = segments.findIndex((segment) => isGlob(segment))
+  const root = segments.slice(FIRST_SEGMENT, firstGlob).join(path.sep) || path.sep
+  const glob = new Bun.Glob(`${segments.slice(firstGlob).join('/')}/package.json`)
+
+  const dirs: string[] = []
+  for await (const match of glob.scan({ cwd: root, onlyFiles: true })) {
+    if (!match.split(/[\\/]/).includes('node_modules')) {
+      dirs.push(path.dirname(path.join(root, match)))
+    }
+  }
+  return dirs
+}
+
+export const readWorkspacePatterns = async () => {
+  const rootPkg = await readJson<{ workspaces?: string[] | { packages?: string[] } }>(
+    path.join(REPO_ROOT, 'package.json'),
+  )
+  const { workspaces } = rootPkg
+  if (Array.isArray(workspaces)) {
+    return workspaces
+  }
+  return workspaces?.packages ?? []
+}
+
+export const toDisplayPath = (filePath: string) => {
+  const relative = path.relative(REPO_ROOT, filePath)
+  return relative.startsWith('..') ? filePath : relative
+}
+
+export const exitWithError = (error: unknown) => {
+  let message = String(error)
+  if (error instanceof Error) {
+    ;({ message } = error)
+  }
+  console.error(message)
+  process.exit(EXIT_FAILURE)
+}
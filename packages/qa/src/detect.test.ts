@@ -0,0 +1,24 @@
+import { expect, test } from 'bun:test'
+import { detectDeclarations, detectKind, detectTailwind, readQaConfig } from './detect'
+
+test('the qa block overrides the detected kind and Tailwind', () => {
+  const pkg = { dependencies: { tailwindcss: '^4.0.0' }, name: 'client-utils', qa: { kind: 'lib', tailwind: false } }
+
+  expect(detectKind({ name: 'client-utils' })).toBe('cli')
+  expect(detectKind(pkg)).toBe('lib')
+  expect(detectTailwind(pkg)).toBeFalse()
+})
+
+test('rejects unknown qa block values', () => {
+  expect(() => readQaConfig({ qa: { kind: 'app' } })).toThrow(
+    'Invalid "qa.kind" in package.json (expected web|cli|lib)',
+  )
+  expect(() => readQaConfig({ qa: { tsconfigPreset: 'deno' } })).toThrow('qa.tsconfigPreset')
+  expect(() => readQaConfig({ qa: 'lib' })).toThrow('Invalid "qa" in package.json')
+})
+
+test('only publishable packages with a types field get declaration output', () => {
+  expect(detectDeclarations({ name: 'lib', types: './dist/index.d.ts' })).toBeTrue()
+  expect(detectDeclarations({ name: 'lib', private: true, types: './dist/index.d.ts' })).toBeFalse()
+  expect(detectDeclarations({ name: 'lib' })).toBeFalse()
+})
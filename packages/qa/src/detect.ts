@@ -0,0 +1,116 @@
+export type WorkspaceKind = 'web' | 'cli' | 'lib'
+
+export type PackageJson = Record<string, unknown>
+
+export const QA_PACKAGE = '@bun-monorepo-template/qa'
+
+const QA_SCRIPTS = ['lint', 'format', 'typecheck']
+
+const WORKSPACE_KINDS: WorkspaceKind[] = ['web', 'cli', 'lib']
+
+/** Presets exported as `@bun-monorepo-template/qa/tsconfig/<name>`. */
+export const TSCONFIG_PRESETS = ['node', 'web', 'react-lib', 'declarations', 'test', 'worker'] as const
+
+export type TsconfigPreset = (typeof TSCONFIG_PRESETS)[number]
+
+/**
+ * The `"qa"` block of a workspace package.json. Every field is optional and wins over the
+ * heuristics below.
+ */
+export interface QaConfig {
+  kind?: WorkspaceKind
+  tailwind?: boolean
+  tsconfigPreset?: TsconfigPreset
+  bunup?: boolean
+}
+
+const isOneOf = <TValue extends string>(values: readonly TValue[], value: unknown): value is TValue =>
+  values.includes(value as TValue)
+
+const assertField = (valid: boolean, field: string, expected: string) => {
+  if (!valid) {
+    throw new Error(`Invalid "${field}" in package.json (expected ${expected})`)
+  }
+}
+
+const isOptionalBoolean = (value: unknown) => value === undefined || typeof value === 'boolean'
+
+const assertQaFields = (config: Record<string, unknown>) => {
+  assertField(config.kind === undefined || isOneOf(WORKSPACE_KINDS, config.kind), 'qa.kind', WORKSPACE_KINDS.join('|'))
+  assertField(isOptionalBoolean(config.tailwind), 'qa.tailwind', 'a boolean')
+  assertField(
+    config.tsconfigPreset === undefined || isOneOf(TSCONFIG_PRESETS, config.tsconfigPreset),
+    'qa.tsconfigPreset',
+    TSCONFIG_PRESETS.join('|'),
+  )
+  assertField(isOptionalBoolean(config.bunup), 'qa.bunup', 'a boolean')
+}
+
+/** Reads and validates the `"qa"` block; throws on values `qa:init` would not understand. */
+export const readQaConfig = (pkg: PackageJson): QaConfig => {
+  const { qa } = pkg
+  if (qa === undefined) {
+    return {}
+  }
+  assertField(typeof qa === 'object' && qa !== null && !Array.isArray(qa), 'qa', 'an object')
+  assertQaFields(qa as Record<string, unknown>)
+  return qa as QaConfig
+}
+
+export const coerceDeps = (pkg: PackageJson) => {
+  const deps = (pkg.dependencies ?? {}) as Record<string, string>
+  const devDeps = (pkg.devDependencies ?? {}) as Record<string, string>
+  return { deps, devDeps }
+}
+
+const guessKind = (pkg: PackageJson): WorkspaceKind => {
+  const { deps, devDeps } = coerceDeps(pkg)
+  const allDeps = new Set([...Object.keys(deps), ...Object.keys(devDeps)])
+
+  if (allDeps.has('react') || allDeps.has('react-dom') || allDeps.has('next') || allDeps.has('vite')) {
+    return 'web'
+  }
+
+  if (typeof pkg.bin === 'string' || typeof pkg.bin === 'object') {
+    return 'cli'
+  }
+
+  if (typeof pkg.name === 'string' && pkg.name.toLowerCase().includes('cli')) {
+    return 'cli'
+  }
+
+  return 'lib'
+}
+
+export const detectKind = (pkg: PackageJson): WorkspaceKind => readQaConfig(pkg).kind ?? guessKind(pkg)
+
+export const detectTailwind = (pkg: PackageJson) => {
+  const { tailwind } = readQaConfig(pkg)
+  if (tailwind !== undefined) {
+    return tailwind
+  }
+
+  const { deps, devDeps } = coerceDeps(pkg)
+  return Boolean(deps.tailwindcss || devDeps.tailwindcss)
+}
+
+export const detectReact = (pkg: PackageJson) => {
+  const { deps, devDeps } = coerceDeps(pkg)
+  return Boolean(deps.react || devDeps.react)
+}
+
+/**
+ * True for a publishable package that points `types` at its own output, so its `.d.ts` files come
+ * from `tsc -b` rather than the bundler.
+ */
+export const detectDeclarations = (pkg: PackageJson) =>
+  pkg.private !== true && (typeof pkg.types === 'string' || typeof pkg.typings === 'string')
+
+/**
+ * True when the package has the scripts and dev dependency that `qa:init` installs.
+ */
+export const detectQaWiring = (pkg: PackageJson) => {
+  const { devDeps } = coerceDeps(pkg)
+  const scripts = (pkg.scripts ?? {}) as Record<string, string>
+  return Boolean(devDeps[QA_PACKAGE]) && QA_SCRIPTS.every((script) => Boolean(scripts[script]))
+}
@@ -0,0 +1,29 @@
+import { expect, test } from 'bun:test'
+import { createUnifiedDiff } from './diff'
+
+const CONTEXT = 1
+
+test('identical texts produce no diff', () => {
+  expect(createUnifiedDiff('a\n', 'a\n', { fromFile: 'x', toFile: 'x' })).toBe('')
+})
+
+test('renders hunks with context', () => {
+  const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', ''].join('\n')
+  const after = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', ''].join('\n')
+
+  expect(createUnifiedDiff(before, after, { context: CONTEXT, fromFile: 'f.txt', toFile: 'f.txt' })).toBe(
+    ['--- a/f.txt', '+++ b/f.txt', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c', '@@ -7 +7,2 @@', ' g', '+h'].join('\n'),
+  )
+})
+
+test('new files diff against /dev/null', () => {
+  expect(createUnifiedDiff('', 'one\n', { toFile: 'new.txt' })).toBe(
+    ['--- /dev/null', '+++ b/new.txt', '@@ -0,0 +1 @@', '+one'].join('\n'),
+  )
+})
+
+test('marks a missing final newline', () => {
+  expect(createUnifiedDiff('one', 'one\n', { fromFile: 'x', toFile: 'x' })).toBe(
+    ['--- a/x', '+++ b/x', '@@ -1 +1 @@', '-one', String.raw`\ No newline at end of file`, '+one'].join('\n'),
+  )
+})
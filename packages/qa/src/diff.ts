@@ -0,0 +1,146 @@
+interface DiffOp {
+  type: ' ' | '-' | '+'
+  line: string
+}
+
+interface Hunk {
+  ops: DiffOp[]
+  oldStart: number
+  newStart: number
+}
+
+interface LcsInput {
+  before: string[]
+  after: string[]
+  table: number[][]
+}
+
+export interface UnifiedDiffOptions {
+  /** Label for the original file; `undefined` renders `/dev/null` (file does not exist yet). */
+  fromFile?: string
+  toFile: string
+  context?: number
+}
+
+const DEFAULT_CONTEXT = 3
+const NONE = 0
+const STEP = 1
+const NOT_FOUND = -1
+const NO_NEWLINE_MARKER = String.raw`\ No newline at end of file`
+
+const splitLines = (text: string) => {
+  if (text === '') {
+    return []
+  }
+  const lines = text.split('\n')
+  const last = lines.pop() ?? ''
+  if (last === '') {
+    return lines
+  }
+  // Keep a missing final newline visible the way `diff -u` does.
+  return [...lines, `${last}\n${NO_NEWLINE_MARKER}`]
+}
+
+const cell = (table: number[][], row: number, column: number) => table[row]?.[column] ?? NONE
+
+const buildLcsTable = (before: string[], after: string[]) => {
+  const table = Array.from({ length: before.length + STEP }, () =>
+    Array.from({ length: after.length + STEP }, () => NONE),
+  )
+  for (let row = before.length - STEP; row >= NONE; row -= STEP) {
+    const current = table[row] ?? []
+    for (let column = after.length - STEP; column >= NONE; column -= STEP) {
+      current[column] =
+        before[row] === after[column]
+          ? cell(table, row + STEP, column + STEP) + STEP
+          : Math.max(cell(table, row + STEP, column), cell(table, row, column + STEP))
+    }
+  }
+  return table
+}
+
+const nextOp = ({ before, after, table }: LcsInput, row: number, column: number): DiffOp => {
+  if (row < before.length && column < after.length && before[row] === after[column]) {
+    return { line: before[row] ?? '', type: ' ' }
+  }
+  const canRemove = row < before.length
+  const preferRemove = column >= after.length || cell(table, row + STEP, column) >= cell(table, row, column + STEP)
+  if (canRemove && preferRemove) {
+    return { line: before[row] ?? '', type: '-' }
+  }
+  return { line: after[column] ?? '', type: '+' }
+}
+
+const diffLines = (before: string[], after: string[]) => {
+  const input: LcsInput = { after, before, table: buildLcsTable(before, after) }
+  const ops: DiffOp[] = []
+  let row = NONE
+  let column = NONE
+  while (row < before.length || column < after.length) {
+    const op = nextOp(input, row, column)
+    ops.push(op)
+    row += op.type === '+' ? NONE : STEP
+    column += op.type === '-' ? NONE : STEP
+  }
+  return ops
+}
+
+/** Marks every operation that is a change or within `context` lines of one. */
+const markVisible = (ops: DiffOp[], context: number) => {
+  const visible = ops.map(() => false)
+  ops.forEach((op, index) => {
+    if (op.type === ' ') {
+      return
+    }
+    const from = Math.max(NONE, index - context)
+    const to = Math.min(ops.length - STEP, index + context)
+    for (let position = from; position <= to; position += STEP) {
+      visible[position] = true
+    }
+  })
+  return visible
+}
+
+const groupHunks = (ops: DiffOp[], context: number) => {
+  const visible = markVisible(ops, context)
+  const hunks: Hunk[] = []
+  const position = { newLine: NONE, oldLine: NONE }
+  ops.forEach((op, index) => {
+    if (visible[index]) {
+      const startsHunk = index === NONE || !visible[index - STEP]
+      if (startsHunk) {
+        hunks.push({ newStart: position.newLine, oldStart: position.oldLine, ops: [] })
+      }
+      hunks.at(NOT_FOUND)?.ops.push(op)
+    }
+    position.oldLine += op.type === '+' ? NONE : STEP
+    position.newLine += op.type === '-' ? NONE : STEP
+  })
+  return hunks
+}
+
+const formatRange = (start: number, length: number) => {
+  const first = length === NONE ? start : start + STEP
+  return length === STEP ? `${first}` : `${first},${length}`
+}
+
+const formatHunk = ({ ops, oldStart, newStart }: Hunk) => {
+  const oldLength = ops.filter((op) => op.type !== '+').length
+  const newLength = ops.filter((op) => op.type !== '-').length
+  const header = `@@ -${formatRange(oldStart, oldLength)} +${formatRange(newStart, newLength)} @@`
+  return [header, ...ops.map((op) => `${op.type}${op.line}`)].join('\n')
+}
+
+/**
+ * Renders a unified diff (as produced by `diff -u`) between two texts, or an empty string
+ * when they are identical.
+ */
+export const createUnifiedDiff = (before: string, after: string, options: UnifiedDiffOptions) => {
+  if (before === after) {
+    return ''
+  }
+  const context = options.context ?? DEFAULT_CONTEXT
+  const hunks = groupHunks(diffLines(splitLines(before), splitLines(after)), context)
+  const fromLabel = options.fromFile === undefined ? '/dev/null' : `a/${options.fromFile}`
+  return [`--- ${fromLabel}`, `+++ b/${options.toFile}`, ...hunks.map(formatHunk)].join('\n')
+}
@@ -0,0 +1,72 @@
+import { expect, test } from 'bun:test'
+import { appendJsoncValue, parseJsonc, removeJsoncValue, setJsoncValue } from './jsonc'
+
+const TSCONFIG = `{
+  // Local overrides
+  "compilerOptions": {
+    "target": "ESNext", // keep in sync with Bun
+  },
+}
+`
+const FIRST = 0
+const SECOND = 1
+
+test('parses comments and trailing commas', () => {
+  expect(parseJsonc(TSCONFIG)).toEqual({ compilerOptions: { target: 'ESNext' } })
+  expect(() => parseJsonc('{"a": }')).toThrow('Unexpected "}" at line 1 in JSON')
+})
+
+test('requires commas between members and allows only one trailing comma', () => {
+  expect(parseJsonc('{ "types": [true, false,], }')).toEqual({ types: [true, false] })
+  expect(() => parseJsonc('{"a": 1 "b": 2}')).toThrow('Unexpected """ at line 1 in JSON')
+  expect(() => parseJsonc('[1 2 3]')).toThrow('Unexpected "2" at line 1 in JSON')
+  expect(() => parseJsonc('{,}')).toThrow('Unexpected "," at line 1 in JSON')
+  expect(() => parseJsonc('[true,,]')).toThrow('Unexpected "," at line 1 in JSON')
+})
+
+test('adds a property and keeps comments and trailing commas', () => {
+  expect(setJsoncValue(TSCONFIG, ['extends'], '@acme/tsconfig')).toBe(`{
+  // Local overrides
+  "compilerOptions": {
+    "target": "ESNext", // keep in sync with Bun
+  },
+  "extends": "@acme/tsconfig",
+}
+`)
+})
+
+test('replaces only the edited value', () => {
+  const input = '{\n    "extends": "old", /* why */\n    "include": ["src"]\n}\n'
+
+  expect(setJsoncValue(input, ['extends'], 'new')).toBe(
+    '{\n    "extends": "new", /* why */\n    "include": ["src"]\n}\n',
+  )
+  expect(setJsoncValue(input, ['compilerOptions', 'strict'], true)).toBe(
+    '{\n    "extends": "old", /* why */\n    "include": ["src"],\n    "compilerOptions": {\n        "strict": true\n    }\n}\n',
+  )
+})
+
+test('appends to inline and multi-line arrays', () => {
+  expect(appendJsoncValue('{ "extends": ["a"] }', ['extends'], 'b')).toBe('{ "extends": ["a", "b"] }')
+  expect(appendJsoncValue('{\n  "extends": [\n    "a" // base\n  ]\n}', ['extends'], 'b')).toBe(
+    '{\n  "extends": [\n    "a", // base\n    "b"\n  ]\n}',
+  )
+  expect(appendJsoncValue('{ "extends": [] }', ['extends'], 'b')).toBe('{ "extends": ["b"] }')
+})
+
+test('refuses to append to a non-array', () => {
+  expect(() => appendJsoncValue('{"extends": "a"}', ['extends'], 'b')).toThrow('not an array')
+})
+
+test('removes properties with their line and fixes the dangling comma', () => {
+  const input = '{\n  "extends": "a", // preset\n  "include": ["src"],\n  "exclude": ["dist"]\n}\n'
+
+  expect(removeJsoncValue(input, ['extends'])).toBe('{\n  "include": ["src"],\n  "exclude": ["dist"]\n}\n')
+  expect(removeJsoncValue(input, ['exclude'])).toBe('{\n  "extends": "a", // preset\n  "include": ["src"]\n}\n')
+})
+
+test('removes inline array items', () => {
+  expect(removeJsoncValue('{ "extends": ["a", "b"] }', ['extends', FIRST])).toBe('{ "extends": ["b"] }')
+  expect(removeJsoncValue('{ "extends": ["a", "b"] }', ['extends', SECOND])).toBe('{ "extends": ["a"] }')
+  expect(removeJsoncValue('{ "extends": ["a"] }', ['missing'])).toBe('{ "extends": ["a"] }')
+})
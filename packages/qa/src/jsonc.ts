@@ -0,0 +1,395 @@
+interface Cursor {
+  text: string
+  offset: number
+}
+
+interface ValueNode {
+  kind: 'value'
+  offset: number
+  end: number
+  value: unknown
+}
+
+interface ObjectNode {
+  kind: 'object'
+  offset: number
+  end: number
+  properties: JsoncProperty[]
+}
+
+interface ArrayNode {
+  kind: 'array'
+  offset: number
+  end: number
+  items: JsoncNode[]
+}
+
+export type JsoncNode = ValueNode | ObjectNode | ArrayNode
+
+export interface JsoncProperty {
+  key: string
+  keyOffset: number
+  value: JsoncNode
+}
+
+/** Path to a value: object keys and array indexes (ex: `['compilerOptions', 'types', 0]`). */
+export type JsoncPath = (string | number)[]
+
+// A new member is rendered once its indentation is known.
+type MemberRenderer = (indent: string) => string
+
+const NONE = 0
+const STEP = 1
+const NOT_FOUND = -1
+const DEFAULT_INDENT = '  '
+const WHITESPACE = /\s+/y
+const LINE_COMMENT = /\/\/[^\n]*/y
+const BLOCK_COMMENT = /\/\*[\s\S]*?\*\//y
+const STRING = /"(?:[^"\\\n]|\\.)*"/y
+const LITERAL = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y
+const INDENTED_LINE = /^(?<indent>[ \t]+)\S/m
+
+const matchAt = (cursor: Cursor, pattern: RegExp) => {
+  pattern.lastIndex = cursor.offset
+  const match = pattern.exec(cursor.text)
+  if (match) {
+    cursor.offset += match[NONE].length
+  }
+  return match?.[NONE]
+}
+
+const skipTrivia = (cursor: Cursor) => {
+  while (matchAt(cursor, WHITESPACE) ?? matchAt(cursor, LINE_COMMENT) ?? matchAt(cursor, BLOCK_COMMENT)) {
+    // Consumed by matchAt.
+  }
+}
+
+const fail = (cursor: Cursor): never => {
+  const found = cursor.text[cursor.offset]
+  const line = cursor.text.slice(NONE, cursor.offset).split('\n').length
+  throw new Error(found ? `Unexpected "${found}" at line ${line} in JSON` : 'Unexpected end of JSON')
+}
+
+const expectChar = (cursor: Cursor, char: string) => {
+  skipTrivia(cursor)
+  if (cursor.text[cursor.offset] !== char) {
+    fail(cursor)
+  }
+  cursor.offset += STEP
+}
+
+const consumeChar = (cursor: Cursor, char: string) => {
+  if (cursor.text[cursor.offset] !== char) {
+    return false
+  }
+  cursor.offset += STEP
+  return true
+}
+
+// After a member: returns true once the closing char is reached, allowing one trailing comma before it.
+const consumeSeparator = (cursor: Cursor, close: string) => {
+  skipTrivia(cursor)
+  if (consumeChar(cursor, ',')) {
+    skipTrivia(cursor)
+    return consumeChar(cursor, close)
+  }
+  if (!consumeChar(cursor, close)) {
+    fail(cursor)
+  }
+  return true
+}
+
+// Parses the members of an object or array, from its opening char to its closing one.
+const parseMembers = <Member>(cursor: Cursor, close: string, parseMember: (cursor: Cursor) => Member): Member[] => {
+  const members: Member[] = []
+  cursor.offset += STEP
+  skipTrivia(cursor)
+  let closed = consumeChar(cursor, close)
+  while (!closed) {
+    members.push(parseMember(cursor))
+    closed = consumeSeparator(cursor, close)
+  }
+  return members
+}
+
+const parseString = (cursor: Cursor) => {
+  const raw = matchAt(cursor, STRING)
+  return raw === undefined ? fail(cursor) : (JSON.parse(raw) as string)
+}
+
+const parseNode = (cursor: Cursor): JsoncNode => {
+  skipTrivia(cursor)
+  const char = cursor.text[cursor.offset]
+  if (char === '{') {
+    return parseObject(cursor)
+  }
+  if (char === '[') {
+    return parseArray(cursor)
+  }
+  return parseScalar(cursor)
+}
+
+const parseProperty = (cursor: Cursor): JsoncProperty => {
+  skipTrivia(cursor)
+  const keyOffset = cursor.offset
+  const key = parseString(cursor)
+  expectChar(cursor, ':')
+  return { key, keyOffset, value: parseNode(cursor) }
+}
+
+const parseObject = (cursor: Cursor): ObjectNode => {
+  const { offset } = cursor
+  const properties = parseMembers(cursor, '}', parseProperty)
+  return { end: cursor.offset, kind: 'object', offset, properties }
+}
+
+const parseArray = (cursor: Cursor): ArrayNode => {
+  const { offset } = cursor
+  const items = parseMembers(cursor, ']', parseNode)
+  return { end: cursor.offset, items, kind: 'array', offset }
+}
+
+const parseScalar = (cursor: Cursor): ValueNode => {
+  const { offset } = cursor
+  const raw = cursor.text[offset] === '"' ? matchAt(cursor, STRING) : matchAt(cursor, LITERAL)
+  if (raw === undefined) {
+    return fail(cursor)
+  }
+  return { end: cursor.offset, kind: 'value', offset, value: JSON.parse(raw) }
+}
+
+/** Parses JSON with comments and trailing commas into a tree that keeps source offsets. */
+export const parseJsoncTree = (text: string): JsoncNode => {
+  const cursor = { offset: NONE, text }
+  const root = parseNode(cursor)
+  skipTrivia(cursor)
+  if (cursor.offset < text.length) {
+    fail(cursor)
+  }
+  return root
+}
+
+const toValue = (node: JsoncNode): unknown => {
+  if (node.kind === 'object') {
+    return Object.fromEntries(node.properties.map(({ key, value }) => [key, toValue(value)]))
+  }
+  if (node.kind === 'array') {
+    return node.items.map((item) => toValue(item))
+  }
+  return node.value
+}
+
+export const parseJsonc = <TData>(text: string): TData => toValue(parseJsoncTree(text)) as TData
+
+const findChild = (node: JsoncNode | undefined, segment: string | number) => {
+  if (node?.kind === 'object') {
+    return node.properties.findLast(({ key }) => key === segment)?.value
+  }
+  if (node?.kind === 'array' && typeof segment === 'number') {
+    return node.items[segment]
+  }
+  return undefined
+}
+
+const findNode = (root: JsoncNode, path: JsoncPath) =>
+  path.reduce<JsoncNode | undefined>((node, segment) => findChild(node, segment), root)
+
+const detectIndentUnit = (text: string) => INDENTED_LINE.exec(text)?.groups?.indent ?? DEFAULT_INDENT
+
+const lineIndent = (text: string, offset: number) => {
+  const lineStart = text.lastIndexOf('\n', offset - STEP) + STEP
+  return /^[ \t]*/.exec(text.slice(lineStart, offset))?.[NONE] ?? ''
+}
+
+const linePrefix = (text: string, offset: number) => text.slice(text.lastIndexOf('\n', offset - STEP) + STEP, offset)
+
+const isScalar = (value: unknown) => value === null || typeof value !== 'object'
+
+// Like `JSON.stringify(value, undefined, unit)`, but arrays of scalars stay on one line the way Prettier prints them.
+const formatValue = (value: unknown, unit: string, indent: string): string => {
+  if (isScalar(value)) {
+    return JSON.stringify(value)
+  }
+  if (Array.isArray(value) && value.every((item) => isScalar(item))) {
+    return `[${value.map((item) => JSON.stringify(item)).join(', ')}]`
+  }
+  const inner = `${indent}${unit}`
+  const members = Array.isArray(value)
+    ? value.map((item) => formatValue(item, unit, inner))
+    : Object.entries(value as object).map(([key, item]) => `${JSON.stringify(key)}: ${formatValue(item, unit, inner)}`)
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}']
+  return members.length === NONE
+    ? `${open}${close}`
+    : `${open}\n${inner}${members.join(`,\n${inner}`)}\n${indent}${close}`
+}
+
+interface Span {
+  offset: number
+  end: number
+}
+
+const replaceSpan = (text: string, { offset, end }: Span, insert: string) =>
+  `${text.slice(NONE, offset)}${insert}${text.slice(end)}`
+
+const insertText = (text: string, offset: number, insert: string) => replaceSpan(text, { end: offset, offset }, insert)
+
+const memberBounds = (container: ObjectNode | ArrayNode) =>
+  container.kind === 'object'
+    ? container.properties.map(({ keyOffset, value }) => ({ end: value.end, start: keyOffset }))
+    : container.items.map(({ offset, end }) => ({ end, start: offset }))
+
+const insertIntoEmpty = (text: string, container: ObjectNode | ArrayNode, render: MemberRenderer) => {
+  const indent = lineIndent(text, container.offset)
+  const inner = text.slice(container.offset + STEP, container.end - STEP)
+  if (inner.trim() === '') {
+    const memberIndent = `${indent}${detectIndentUnit(text)}`
+    const body = container.kind === 'array' ? render(indent) : `\n${memberIndent}${render(memberIndent)}\n${indent}`
+    return replaceSpan(text, { end: container.end - STEP, offset: container.offset + STEP }, body)
+  }
+  // Keep comments of an otherwise empty container after the new member.
+  return insertText(text, container.offset + STEP, `${render(indent)},`)
+}
+
+const findTrailingComma = (text: string, offset: number) => {
+  const cursor = { offset, text }
+  skipTrivia(cursor)
+  return text[cursor.offset] === ',' ? cursor.offset : NOT_FOUND
+}
+
+// End of the line after `offset` when only a line comment follows, so the comment stays put.
+const findLineEnd = (text: string, offset: number) => {
+  const lineEnd = text.indexOf('\n', offset)
+  if (lineEnd === NOT_FOUND) {
+    return offset
+  }
+  return /^[ \t]*(?:\/\/.*)?$/.test(text.slice(offset, lineEnd)) ? lineEnd : offset
+}
+
+const insertAfterLast = (text: string, container: ObjectNode | ArrayNode, render: MemberRenderer) => {
+  const last = memberBounds(container).at(NOT_FOUND) ?? { end: container.offset, start: container.offset }
+  const comma = findTrailingComma(text, last.end)
+  const afterComma = comma === NOT_FOUND ? last.end : comma + STEP
+  // Without a trailing comma the new member needs one in front; with one it keeps the style.
+  const [separator, trailing] = comma === NOT_FOUND ? [',', ''] : ['', ',']
+
+  if (!text.slice(container.offset, container.end).includes('\n')) {
+    return insertText(text, afterComma, `${separator} ${render('')}${trailing}`)
+  }
+  const indent = lineIndent(text, last.start)
+  const insertAt = findLineEnd(text, afterComma)
+  const inserted = insertText(text, insertAt, `\n${indent}${render(indent)}${trailing}`)
+  return insertText(inserted, last.end, separator)
+}
+
+const insertMember = (text: string, container: ObjectNode | ArrayNode, render: MemberRenderer) =>
+  memberBounds(container).length === NONE
+    ? insertIntoEmpty(text, container, render)
+    : insertAfterLast(text, container, render)
+
+const renderProperty = (key: string, value: unknown, unit: string) => (indent: string) =>
+  `${JSON.stringify(key)}: ${formatValue(value, unit, indent)}`
+
+const addProperty = (text: string, path: JsoncPath, value: unknown): string => {
+  const key = path.at(NOT_FOUND)
+  const parentPath = path.slice(NONE, NOT_FOUND)
+  const parent = findNode(parseJsoncTree(text), parentPath)
+  if (typeof key !== 'string' || (parent && parent.kind !== 'object')) {
+    throw new Error(`Cannot set ${path.join('.')} in JSON`)
+  }
+  if (!parent) {
+    return setJsoncValue(text, parentPath, { [key]: value })
+  }
+  return insertMember(text, parent, renderProperty(key, value, detectIndentUnit(text)))
+}
+
+/**
+ * Sets the value at `path`, editing only that span of `text`: comments, key order and
+ * indentation elsewhere are kept. Missing objects along the path are created.
+ */
+export const setJsoncValue = (text: string, path: JsoncPath, value: unknown): string => {
+  const target = findNode(parseJsoncTree(text), path)
+  if (!target) {
+    return addProperty(text, path, value)
+  }
+  const formatted = formatValue(value, detectIndentUnit(text), lineIndent(text, target.offset))
+  return replaceSpan(text, target, formatted)
+}
+
+/** Appends `value` to the array at `path`, creating the array when it does not exist. */
+export const appendJsoncValue = (text: string, path: JsoncPath, value: unknown) => {
+  const target = findNode(parseJsoncTree(text), path)
+  if (!target) {
+    return setJsoncValue(text, path, [value])
+  }
+  if (target.kind !== 'array') {
+    throw new Error(`Cannot append to ${path.join('.')} in JSON: not an array`)
+  }
+  const unit = detectIndentUnit(text)
+  return insertMember(text, target, (indent) => formatValue(value, unit, indent))
+}
+
+// True when only whitespace or a line comment follows `offset` on its line.
+const isLineTail = (text: string, offset: number) => /^[ \t]*(?:\/\/[^\n]*)?(?:\n|$)/.test(text.slice(offset))
+
+const removeOwnLine = (text: string, span: Span) => {
+  const lineStart = text.lastIndexOf('\n', span.offset - STEP) + STEP
+  const lineEnd = text.indexOf('\n', span.end)
+  return replaceSpan(text, { end: lineEnd === NOT_FOUND ? text.length : lineEnd + STEP, offset: lineStart }, '')
+}
+
+interface Neighbours {
+  previous?: Span
+  next?: Span
+}
+
+const removeInline = (text: string, span: Span, neighbours: Neighbours) => {
+  if (neighbours.next) {
+    return replaceSpan(text, { end: neighbours.next.offset, offset: span.offset }, '')
+  }
+  return replaceSpan(text, { end: span.end, offset: neighbours.previous?.end ?? span.offset }, '')
+}
+
+// The last member loses its line; the one before it then must not keep a dangling comma.
+const removeLastLine = (text: string, span: Span, previous: Span | undefined) => {
+  const removed = removeOwnLine(text, span)
+  const comma = previous ? findTrailingComma(removed, previous.end) : NOT_FOUND
+  return comma === NOT_FOUND ? removed : replaceSpan(removed, { end: comma + STEP, offset: comma }, '')
+}
+
+const removeSpan = (text: string, member: Span, { previous, next }: Neighbours) => {
+  const comma = findTrailingComma(text, member.end)
+  const span = { end: comma === NOT_FOUND ? member.end : comma + STEP, offset: member.offset }
+  if (!/^[ \t]*$/.test(linePrefix(text, span.offset)) || !isLineTail(text, span.end)) {
+    return removeInline(text, span, { next, previous })
+  }
+  if (next || comma !== NOT_FOUND) {
+    return removeOwnLine(text, span)
+  }
+  return removeLastLine(text, span, previous)
+}
+
+const removeMember = (text: string, container: ObjectNode | ArrayNode, index: number) => {
+  const members = memberBounds(container).map(({ start, end }) => ({ end, offset: start }))
+  const member = members[index]
+  if (!member) {
+    return text
+  }
+  return removeSpan(text, member, { next: members[index + STEP], previous: members[index - STEP] })
+}
+
+/** Removes the property or array item at `path` (and its line when it had one of its own). */
+export const removeJsoncValue = (text: string, path: JsoncPath) => {
+  const parent = findNode(parseJsoncTree(text), path.slice(NONE, NOT_FOUND))
+  const key = path.at(NOT_FOUND)
+  if (parent?.kind === 'object') {
+    return removeMember(
+      text,
+      parent,
+      parent.properties.findLastIndex((property) => property.key === key),
+    )
+  }
+  if (parent?.kind === 'array' && typeof key === 'number') {
+    return removeMember(text, parent, key)
+  }
+  return text
+}
@@ -1,5 +1,5 @@
-import { normalizeLevel } from './core'
 import { logger } from './index'
+import { normalizeLevel } from './levels'
 import type { LoggerInit, LogLevel } from './types'
 
 export interface CliFlags {
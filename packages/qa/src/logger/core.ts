@@ -1,30 +1,27 @@
-import type { LogLevel, LogMeta, Logger, LoggerInit, LoggerOptions } from './types'
-
-const LEVEL_DEBUG = 10
-const LEVEL_INFO = 20
-const LEVEL_WARN = 30
-const LEVEL_ERROR = 40
-const LEVEL_SILENT = 50
-
-const LEVEL_ORDER: Record<LogLevel, number> = {
-  debug: LEVEL_DEBUG,
-  error: LEVEL_ERROR,
-  info: LEVEL_INFO,
-  silent: LEVEL_SILENT,
-  warn: LEVEL_WARN,
-}
+import { assertLoggable, levelColor, levelStream, RESET, resolveLevel, shouldLog } from './levels'
+import { compileRedaction, redactMeta } from './redact'
+import type {
+  ConsoleSinkOptions,
+  LogFormat,
+  LogLevel,
+  LogMeta,
+  LogRecord,
+  LogSink,
+  Logger,
+  LoggerInit,
+  LoggerOptions,
+  LogSerializer,
+  SerializeLimits,
+} from './types'
 
-const COLORS = { cyan: '\x1b[36m', dim: '\x1b[2m', red: '\x1b[31m', reset: '\x1b[0m', yellow: '\x1b[33m' }
+export { normalizeLevel } from './levels'
 
-export const normalizeLevel = (level?: string): LogLevel | undefined => {
-  if (!level) {
-    return undefined
-  }
-  const value = level.toLowerCase()
-  return value === 'debug' || value === 'info' || value === 'warn' || value === 'error' || value === 'silent'
-    ? value
-    : undefined
-}
+const NO_SINKS = 0
+const EXIT_FAILURE = 1
+const NONE = 0
+const DEPTH_STEP = 1
+
+const DEFAULT_LIMITS: Required<SerializeLimits> = { maxDepth: 8, maxItems: 100, maxStringLength: 10_000 }
 
 const stripMsg = (meta?: LogMeta) => {
   if (!meta) {
@@ -34,32 +31,121 @@ const stripMsg = (meta?: LogMeta) => {
   return rest
 }
 
-const formatMeta = (meta: LogMeta) =>
-  Object.entries(meta)
-    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
-    .join(' ')
+interface SerializeContext {
+  limits: Required<SerializeLimits>
+  // Objects on the path from the root; a repeat is a cycle, while shared references are fine.
+  ancestors: Set<object>
+  depth: number
+}
 
-const levelColor = (level: LogLevel) => {
-  switch (level) {
-    case 'debug': {
-      return COLORS.dim
-    }
-    case 'info': {
-      return COLORS.cyan
+export interface SerializeOptions {
+  serializers?: Record<string, LogSerializer>
+  limits?: SerializeLimits
+}
+
+const truncate = (value: string, max: number) =>
+  value.length > max ? `${value.slice(NONE, max)}... (${value.length - max} more chars)` : value
+
+const serializePrimitive = (value: unknown, limits: Required<SerializeLimits>): unknown => {
+  switch (typeof value) {
+    case 'string': {
+      return truncate(value, limits.maxStringLength)
     }
-    case 'warn': {
-      return COLORS.yellow
+    case 'bigint':
+    case 'symbol': {
+      return value.toString()
     }
-    case 'error': {
-      return COLORS.red
+    case 'function': {
+      return `[Function ${value.name || 'anonymous'}]`
     }
     default: {
-      return COLORS.reset
+      return value
     }
   }
 }
 
-const shouldLog = (level: LogLevel, configured: LogLevel) => LEVEL_ORDER[level] >= LEVEL_ORDER[configured]
+const serializeList = (items: unknown[], context: SerializeContext) => {
+  const { maxItems } = context.limits
+  const kept = items.slice(NONE, maxItems).map((item) => serializeValue(item, context))
+  return items.length > maxItems ? [...kept, `... ${items.length - maxItems} more items`] : kept
+}
+
+const serializeEntries = (entries: [string, unknown][], context: SerializeContext) =>
+  Object.fromEntries(
+    entries.slice(NONE, context.limits.maxItems).map(([key, item]) => [key, serializeValue(item, context)]),
+  )
+
+// Own enumerable fields (ex: `code`) come first so message, name, stack and cause always win.
+const serializeError = (error: Error, context: SerializeContext) => ({
+  ...serializeEntries(Object.entries(error), context),
+  message: truncate(error.message, context.limits.maxStringLength),
+  name: error.name,
+  stack: error.stack === undefined ? undefined : truncate(error.stack, context.limits.maxStringLength),
+  ...(error instanceof AggregateError && { errors: serializeList(error.errors, context) }),
+  ...(error.cause !== undefined && { cause: serializeValue(error.cause, context) }),
+})
+
+const hasToJSON = (value: object): value is { toJSON: () => unknown } =>
+  typeof (value as { toJSON?: unknown }).toJSON === 'function'
+
+const serializeObject = (value: object, context: SerializeContext): unknown => {
+  if (value instanceof Error) {
+    return serializeError(value, context)
+  }
+  if (value instanceof Map) {
+    return serializeEntries(
+      [...value.entries()].map(([key, item]) => [String(key), item]),
+      context,
+    )
+  }
+  if (value instanceof Set || Array.isArray(value)) {
+    return serializeList([...value], context)
+  }
+  return hasToJSON(value) ? serializeValue(value.toJSON(), context) : serializeEntries(Object.entries(value), context)
+}
+
+const serializeNested = (value: object, context: SerializeContext) => {
+  context.ancestors.add(value)
+  const serialized = serializeObject(value, { ...context, depth: context.depth + DEPTH_STEP })
+  context.ancestors.delete(value)
+  return serialized
+}
+
+/**
+ * Converts any value into JSON-safe data: errors keep name, message, stack and their cause chain,
+ * cycles become `[Circular]`, Map/Set become object/array, Date an ISO string and BigInt a string.
+ */
+const serializeValue = (value: unknown, context: SerializeContext): unknown => {
+  if (typeof value !== 'object' || value === null) {
+    return serializePrimitive(value, context.limits)
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()
+  }
+  if (context.ancestors.has(value)) {
+    return '[Circular]'
+  }
+  if (context.depth >= context.limits.maxDepth) {
+    return Array.isArray(value) ? '[Array]' : '[Object]'
+  }
+  return serializeNested(value, context)
+}
+
+/** Serializes every meta value, running the custom serializer registered for its key first. */
+export const serializeMeta = (meta: LogMeta, { limits, serializers = {} }: SerializeOptions = {}): LogMeta => {
+  const context: SerializeContext = { ancestors: new Set(), depth: NONE, limits: { ...DEFAULT_LIMITS, ...limits } }
+  return Object.fromEntries(
+    Object.entries(meta).map(([key, value]) => {
+      const serializer = serializers[key]
+      return [key, serializeValue(serializer ? serializer(value) : value, context)]
+    }),
+  )
+}
+
+const formatMeta = (meta: LogMeta) =>
+  Object.entries(meta)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ')
 
 interface FormatArgs {
   isTTY: boolean
@@ -75,60 +161,153 @@ export const formatMessage = ({ isTTY, json, level, meta, msg, timestamp }: Form
     return `${JSON.stringify({ level, msg, timestamp: timestamp(), ...meta })}\n`
   }
   const levelLabel = level.toUpperCase()
-  const colored = isTTY ? `${levelColor(level)}${levelLabel}${COLORS.reset}` : levelLabel
+  const colored = isTTY ? `${levelColor(level)}${levelLabel}${RESET}` : levelLabel
   const metaText = formatMeta(meta)
   return `${colored} ${msg}${metaText ? ` ${metaText}` : ''}\n`
 }
 
+interface FormatOptions {
+  format?: LogFormat
+  isTTY?: boolean
+}
+
+export const formatRecord = (
+  { level, meta, msg, timestamp }: LogRecord,
+  { format = 'pretty', isTTY = false }: FormatOptions = {},
+): string => formatMessage({ isTTY, json: format === 'json', level, meta, msg, timestamp: () => timestamp })
+
+/**
+ * Writes each level to its stream (`warn`, `error` and `fatal` to stderr, everything else to stdout
+ * unless registered otherwise), coloured when the stream is a TTY.
+ */
+export const consoleSink = (options: ConsoleSinkOptions = {}): LogSink => ({
+  level: options.level,
+  write: (record) => {
+    const isError = levelStream(record.level) === 'stderr'
+    const stream = isError ? (options.stderr ?? process.stderr) : (options.stdout ?? process.stdout)
+    const isTTY = options.isTTY ?? stream.isTTY ?? false
+    stream.write(formatRecord(record, { format: options.format, isTTY }))
+  },
+})
+
 export const createLogger = (options: LoggerOptions = {}): Logger => {
   const state = {
     baseMeta: stripMsg(options.baseMeta),
+    exitOnFatal: options.exitOnFatal ?? false,
+    fatalExitCode: options.fatalExitCode ?? EXIT_FAILURE,
     isTTY: options.isTTY,
     json: options.json ?? false,
-    level: options.level ?? 'info',
+    level: resolveLevel(options.level),
+    redact: options.redact,
+    serializeLimits: options.serializeLimits,
+    serializers: options.serializers,
+    sinks: options.sinks,
     stderr: options.stderr ?? process.stderr,
     stdout: options.stdout ?? process.stdout,
     timestamp: options.timestamp ?? (() => Date.now()),
   }
 
+  let redaction = compileRedaction(state.redact)
+
+  // Without explicit sinks the logger writes to the console, following the latest `init()`.
+  const currentSinks = (): LogSink[] =>
+    state.sinks ?? [
+      consoleSink({
+        format: state.json ? 'json' : 'pretty',
+        isTTY: state.isTTY,
+        stderr: state.stderr,
+        stdout: state.stdout,
+      }),
+    ]
+
   const write = (level: LogLevel, msg: string, meta?: LogMeta): void => {
-    if (!shouldLog(level, state.level)) {
+    assertLoggable(level)
+    const targets = currentSinks().filter((sink) => shouldLog(level, sink.level ?? state.level))
+    if (targets.length === NO_SINKS) {
       return
     }
-    const stream = level === 'warn' || level === 'error' ? state.stderr : state.stdout
-    const isTTY = state.isTTY ?? stream.isTTY ?? false
-    const mergedMeta = { ...state.baseMeta, ...stripMsg(meta) }
-    stream.write(formatMessage({ isTTY, json: state.json, level, meta: mergedMeta, msg, timestamp: state.timestamp }))
+    const record: LogRecord = {
+      level,
+      meta: redactMeta(
+        serializeMeta(
+          { ...state.baseMeta, ...stripMsg(meta) },
+          { limits: state.serializeLimits, serializers: state.serializers },
+        ),
+        redaction,
+      ),
+      msg,
+      timestamp: state.timestamp(),
+    }
+    for (const sink of targets) {
+      sink.write(record)
+    }
+  }
+
+  const flush = async () => {
+    await Promise.all(currentSinks().map(async (sink) => sink.flush?.()))
+  }
+
+  const close = async () => {
+    await flush()
+    await Promise.all(currentSinks().map(async (sink) => sink.close?.()))
+  }
+
+  // Exit only once every sink has written what it buffered, the fatal record included.
+  const fatal = (msg: string, meta?: LogMeta) => {
+    write('fatal', msg, meta)
+    if (state.exitOnFatal) {
+      void flush()
+        .catch(() => undefined)
+        .then(() => process.exit(state.fatalExitCode))
+    }
   }
 
   const applyInit = (next: LoggerInit) => {
     Object.assign(state, {
-      ...(next.level && { level: next.level }),
+      ...(next.level && { level: resolveLevel(next.level) }),
       ...(next.stdout && { stdout: next.stdout }),
       ...(next.stderr && { stderr: next.stderr }),
       ...(next.timestamp && { timestamp: next.timestamp }),
       ...(next.json !== undefined && { json: next.json }),
       ...(next.isTTY !== undefined && { isTTY: next.isTTY }),
+      ...(next.sinks && { sinks: next.sinks }),
+      ...(next.redact && { redact: next.redact }),
+      ...(next.serializers && { serializers: next.serializers }),
+      ...(next.serializeLimits && { serializeLimits: next.serializeLimits }),
+      ...(next.exitOnFatal !== undefined && { exitOnFatal: next.exitOnFatal }),
+      ...(next.fatalExitCode !== undefined && { fatalExitCode: next.fatalExitCode }),
     })
+    redaction = compileRedaction(state.redact)
   }
 
   const logger: Logger = {
     child: (meta) =>
       createLogger({
         baseMeta: { ...state.baseMeta, ...stripMsg(meta) },
+        exitOnFatal: state.exitOnFatal,
+        fatalExitCode: state.fatalExitCode,
         isTTY: state.isTTY,
         json: state.json,
         level: state.level,
+        redact: state.redact,
+        serializeLimits: state.serializeLimits,
+        serializers: state.serializers,
+        sinks: state.sinks,
         stderr: state.stderr,
         stdout: state.stdout,
         timestamp: state.timestamp,
       }),
+    close,
     debug: (msg, meta) => write('debug', msg, meta),
     error: (msg, meta) => write('error', msg, meta),
+    fatal,
+    flush,
     info: (msg, meta) => write('info', msg, meta),
     init: applyInit,
     json: state.json,
     level: state.level,
+    log: (level, msg, meta) => (level === 'fatal' ? fatal(msg, meta) : write(level, msg, meta)),
+    trace: (msg, meta) => write('trace', msg, meta),
     warn: (msg, meta) => write('warn', msg, meta),
   }
 
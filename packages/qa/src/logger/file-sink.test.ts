@@ -0,0 +1,133 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, expect, test } from 'bun:test'
+import { createLogger } from './core'
+import { fileSink } from './file-sink'
+
+// 2026-01-01T23:59Z and 2026-01-02T00:01Z
+const DAY_ONE = 1_767_311_940_000
+const DAY_TWO = 1_767_312_060_000
+const NEVER_MS = 60_000
+// Two records of the size test fit, a third does not.
+const MAX_BYTES = 120
+const MAX_FILES = 2
+const EXIT_SUCCESS = 0
+// More sinks than the default `maxListeners` (10).
+const SINK_COUNT = 11
+const ONE_HOOK = 1
+
+let dir = ''
+let logPath = ''
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'qa-file-sink-'))
+  logPath = path.join(dir, 'logs', 'app.log')
+})
+
+afterEach(async () => {
+  await rm(dir, { force: true, recursive: true })
+})
+
+const readLines = async (filePath: string) => {
+  const contents = await readFile(filePath, 'utf8')
+  return contents.trim().split('\n')
+}
+
+const readMessages = async (filePath: string) => {
+  const lines = await readLines(filePath)
+  return lines.map((line) => (JSON.parse(line) as { msg: string }).msg)
+}
+
+test('buffers records until flush and writes JSON lines', async () => {
+  const sink = fileSink({ filePath: logPath, flushIntervalMs: NEVER_MS, flushOnExit: false })
+  const logger = createLogger({ sinks: [sink], timestamp: () => DAY_ONE })
+
+  logger.info('started', { port: 3000 })
+  expect(existsSync(logPath)).toBeFalse()
+
+  await logger.close()
+  expect(JSON.parse(await readFile(logPath, 'utf8'))).toEqual({
+    level: 'info',
+    msg: 'started',
+    port: 3000,
+    timestamp: DAY_ONE,
+  })
+})
+
+test('rotates by size and keeps maxFiles old files', async () => {
+  const sink = fileSink({ filePath: logPath, flushOnExit: false, maxBytes: MAX_BYTES, maxFiles: MAX_FILES })
+  const logger = createLogger({ sinks: [sink], timestamp: () => DAY_ONE })
+
+  for (const step of ['a', 'b', 'c', 'd', 'e', 'f', 'g']) {
+    logger.info(`step ${step}`)
+  }
+  await logger.close()
+
+  expect(await readMessages(logPath)).toEqual(['step g'])
+  expect(await readMessages(`${logPath}.1`)).toEqual(['step e', 'step f'])
+  expect(await readMessages(`${logPath}.2`)).toEqual(['step c', 'step d'])
+  expect(existsSync(`${logPath}.3`)).toBeFalse()
+})
+
+test('rotates daily and gzips the previous file', async () => {
+  let now = DAY_ONE
+  const logger = createLogger({
+    sinks: [fileSink({ daily: true, filePath: logPath, flushOnExit: false, format: 'pretty', gzip: true })],
+    timestamp: () => now,
+  })
+
+  logger.warn('late')
+  await logger.flush()
+  now = DAY_TWO
+  logger.info('early')
+  await logger.close()
+
+  expect(await readFile(logPath, 'utf8')).toBe('INFO early\n')
+  const rotated = Bun.gunzipSync(await readFile(`${logPath}.1.gz`))
+  expect(new TextDecoder().decode(rotated)).toBe('WARN late\n')
+})
+
+const runExitScript = async (sinkOptions: string, messages: string[], ending = 'process.exit(0)') => {
+  const script = `
+    import { createLogger } from ${JSON.stringify(path.join(import.meta.dir, 'core.ts'))}
+    import { fileSink } from ${JSON.stringify(path.join(import.meta.dir, 'file-sink.ts'))}
+    const sink = fileSink({ filePath: ${JSON.stringify(logPath)}, flushIntervalMs: ${NEVER_MS}, ${sinkOptions} })
+    const logger = createLogger({ sinks: [sink], timestamp: () => ${DAY_ONE} })
+    for (const msg of ${JSON.stringify(messages)}) logger.info(msg)
+    ${ending}
+  `
+  const proc = Bun.spawn(['bun', '-e', script], { stderr: 'inherit' })
+  return proc.exited
+}
+
+test('writes buffered records when the process exits', async () => {
+  expect(await runExitScript('', ['bye'])).toBe(EXIT_SUCCESS)
+  expect(await readMessages(logPath)).toEqual(['bye'])
+})
+
+test('rotates while writing on exit', async () => {
+  const messages = ['step a', 'step b', 'step c', 'step d', 'step e']
+
+  expect(await runExitScript(`maxBytes: ${MAX_BYTES}, maxFiles: ${MAX_FILES}`, messages)).toBe(EXIT_SUCCESS)
+  expect(await readMessages(logPath)).toEqual(['step e'])
+  expect(await readMessages(`${logPath}.1`)).toEqual(['step c', 'step d'])
+  expect(await readMessages(`${logPath}.2`)).toEqual(['step a', 'step b'])
+})
+
+test('does not turn a failed write before exit into an unhandled rejection', async () => {
+  // A file where the log directory should be makes every write fail.
+  await writeFile(path.dirname(logPath), '')
+
+  expect(await runExitScript('', ['lost'], '')).toBe(EXIT_SUCCESS)
+})
+
+test('shares one exit hook between every open sink', async () => {
+  const before = process.listenerCount('exit')
+  const sinks = Array.from({ length: SINK_COUNT }, () => fileSink({ filePath: logPath }))
+
+  expect(process.listenerCount('exit')).toBe(before + ONE_HOOK)
+  await Promise.all(sinks.map(async (sink) => sink.close()))
+  expect(process.listenerCount('exit')).toBe(before)
+})
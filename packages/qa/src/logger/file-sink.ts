@@ -0,0 +1,226 @@
+import { appendFile } from 'node:fs/promises'
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs'
+import path from 'node:path'
+import { formatRecord } from './core'
+import type { FileSinkOptions, LogRecord, LogSink } from './types'
+
+const DEFAULT_MAX_FILES = 5
+// 64 KiB
+const DEFAULT_BUFFER_SIZE = 65_536
+const DEFAULT_FLUSH_INTERVAL_MS = 1000
+const FIRST_ROTATED = 1
+const INDEX_STEP = 1
+const NONE = 0
+const DAY_KEY_LENGTH = 10
+
+interface Entry {
+  line: string
+  day: string
+}
+
+interface ExitHook {
+  beforeExit: () => void
+  exit: () => void
+}
+
+interface FileState {
+  opened: boolean
+  size: number
+  day?: string
+  batch: string
+}
+
+const toDay = (timestamp: number) => new Date(timestamp).toISOString().slice(NONE, DAY_KEY_LENGTH)
+
+// One pair of process listeners serves every open sink, however many there are.
+const exitHooks = new Set<ExitHook>()
+
+const runBeforeExit = () => {
+  for (const hook of exitHooks) {
+    hook.beforeExit()
+  }
+}
+
+const runExit = () => {
+  for (const hook of exitHooks) {
+    hook.exit()
+  }
+}
+
+const addExitHook = (hook: ExitHook) => {
+  if (exitHooks.size === NONE) {
+    process.on('beforeExit', runBeforeExit)
+    process.on('exit', runExit)
+  }
+  exitHooks.add(hook)
+}
+
+const removeExitHook = (hook: ExitHook) => {
+  exitHooks.delete(hook)
+  if (exitHooks.size === NONE) {
+    process.off('beforeExit', runBeforeExit)
+    process.off('exit', runExit)
+  }
+}
+
+/**
+ * Shifts `<file>.1` … `<file>.<maxFiles - 1>` up by one (dropping the oldest), then moves the current
+ * file to `<file>.1`, gzipped when asked. Synchronous, so the `exit` handler can rotate too.
+ */
+const rotateFiles = ({ filePath, gzip = false, maxFiles = DEFAULT_MAX_FILES }: FileSinkOptions) => {
+  const rotated = (index: number) => `${filePath}.${index}${gzip ? '.gz' : ''}`
+  rmSync(rotated(maxFiles), { force: true })
+  for (let index = maxFiles - INDEX_STEP; index >= FIRST_ROTATED; index -= INDEX_STEP) {
+    if (existsSync(rotated(index))) {
+      renameSync(rotated(index), rotated(index + INDEX_STEP))
+    }
+  }
+
+  if (maxFiles < FIRST_ROTATED) {
+    rmSync(filePath, { force: true })
+  } else if (gzip) {
+    writeFileSync(rotated(FIRST_ROTATED), Bun.gzipSync(readFileSync(filePath)))
+    rmSync(filePath)
+  } else {
+    renameSync(filePath, rotated(FIRST_ROTATED))
+  }
+}
+
+/**
+ * Appends records to `filePath` (JSON lines unless `format` says otherwise). Writes are buffered
+ * and done asynchronously; `flush()` resolves once everything written so far is on disk.
+ */
+export class FileSink implements LogSink {
+  readonly level: LogSink['level']
+  private options: FileSinkOptions
+  private file: FileState = { batch: '', opened: false, size: NONE }
+  private buffer: Entry[] = []
+  private bufferedBytes = NONE
+  private timer?: NodeJS.Timeout
+  private queue = Promise.resolve()
+  private failures: unknown[] = []
+  private closed = false
+  private exitHook: ExitHook = { beforeExit: () => this.flushBeforeExit(), exit: () => this.flushSync() }
+
+  constructor(options: FileSinkOptions) {
+    this.options = options
+    this.level = options.level
+    if (options.flushOnExit ?? true) {
+      addExitHook(this.exitHook)
+    }
+  }
+  write(record: LogRecord): void {
+    if (this.closed) {
+      return
+    }
+    const line = formatRecord(record, { format: this.options.format ?? 'json' })
+    this.buffer.push({ day: toDay(record.timestamp), line })
+    this.bufferedBytes += Buffer.byteLength(line)
+    if (this.bufferedBytes >= (this.options.bufferSize ?? DEFAULT_BUFFER_SIZE)) {
+      void this.enqueueDrain()
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.enqueueDrain(), this.options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS)
+      this.timer.unref()
+    }
+  }
+  async flush(): Promise<void> {
+    await this.enqueueDrain()
+    const [failure] = this.failures
+    this.failures.length = NONE
+    if (failure !== undefined) {
+      throw failure
+    }
+  }
+  async close(): Promise<void> {
+    this.closed = true
+    await this.flush()
+    removeExitHook(this.exitHook)
+  }
+  private enqueueDrain(): Promise<void> {
+    clearTimeout(this.timer)
+    this.timer = undefined
+    this.queue = this.queue
+      .then(() => this.drain())
+      .catch((error: unknown) => {
+        this.failures.push(error)
+      })
+    return this.queue
+  }
+  private async drain(): Promise<void> {
+    this.addToBatch(this.takeBuffer())
+    // The batch is only cleared once appended: the exit handler would rather repeat than lose it.
+    if (this.file.batch !== '') {
+      await appendFile(this.options.filePath, this.file.batch)
+      this.file.batch = ''
+    }
+  }
+  private takeBuffer(): Entry[] {
+    const entries = this.buffer
+    this.buffer = []
+    this.bufferedBytes = NONE
+    return entries
+  }
+  private open(): void {
+    if (this.file.opened) {
+      return
+    }
+    mkdirSync(path.dirname(this.options.filePath), { recursive: true })
+    const stats = statSync(this.options.filePath, { throwIfNoEntry: false })
+    Object.assign(this.file, { day: stats ? toDay(stats.mtimeMs) : undefined, opened: true, size: stats?.size ?? NONE })
+  }
+  // Rotation is rare, so the lines before it are appended synchronously and the exit handler can share this.
+  private addToBatch(entries: Entry[]): void {
+    if (entries.length === NONE) {
+      return
+    }
+    this.open()
+    for (const entry of entries) {
+      if (this.needsRotation(entry)) {
+        this.writeBatchSync()
+        rotateFiles(this.options)
+        this.file.size = NONE
+      }
+      const { batch, size } = this.file
+      Object.assign(this.file, {
+        batch: batch + entry.line,
+        day: entry.day,
+        size: size + Buffer.byteLength(entry.line),
+      })
+    }
+  }
+  private needsRotation({ day, line }: Entry): boolean {
+    const { daily = false, maxBytes } = this.options
+    const { day: fileDay, size } = this.file
+    const tooBig = maxBytes !== undefined && size + Buffer.byteLength(line) > maxBytes
+    const newDay = daily && fileDay !== undefined && day !== fileDay
+    return size > NONE && (tooBig || newDay)
+  }
+  private writeBatchSync(): void {
+    if (this.file.batch !== '') {
+      appendFileSync(this.options.filePath, this.file.batch)
+      this.file.batch = ''
+    }
+  }
+  private flushBeforeExit(): void {
+    if (this.buffer.length > NONE) {
+      // Nothing awaits this flush, so a failed write must not become an unhandled rejection.
+      this.flush().catch(() => undefined)
+    }
+  }
+  // After `process.exit()` only synchronous work runs, so whatever is still buffered is written here.
+  private flushSync(): void {
+    this.addToBatch(this.takeBuffer())
+    this.writeBatchSync()
+  }
+}
+
+export const fileSink = (options: FileSinkOptions): FileSink => new FileSink(options)
@@ -1,17 +1,30 @@
 /**
  * Example:
- * import { logger, debug, withDebug, Spinner } from "@bun-monorepo-template/qa/logger";
+ * import { logger, debug, withDebug, Spinner, registerLevel } from "@bun-monorepo-template/qa/logger";
  * logger.info("Task started", { count: 42 });
+ * registerLevel("audit", { priority: 25, color: "green", stream: "stderr" });
+ * logger.log("audit", "User deleted", { id: 7 });
+ * logger.init({ exitOnFatal: true });
+ * logger.fatal("Cannot recover"); // flushes every sink, then exits with code 1
  * const log = debug("mycli:project");
  * log("Found 3");
  * await withDebug("batch", () => heavyWork());
  * const spin = new Spinner("Building").start();
  * spin.succeed();
+ * const recent = ringBufferSink({ level: "debug", size: 200 });
+ * const file = fileSink({ filePath: "logs/cli.log", maxBytes: 10_000_000, maxFiles: 3, gzip: true });
+ * logger.init({ sinks: [consoleSink({ level: "info" }), file, recent] });
+ * await logger.flush();
+ * logger.init({ redact: { paths: ["*.password", "headers.authorization"], values: [/^sk_live_/] } });
+ * logger.init({ serializers: { req: (req) => ({ method: req.method, url: req.url }) }, serializeLimits: { maxDepth: 4 } });
  */
-import { createLogger, normalizeLevel } from './core'
+import { consoleSink, createLogger, serializeMeta } from './core'
 import { debug, setDebugLogger, setDebugNamespaces, withDebug } from './debug'
+import { FileSink, fileSink } from './file-sink'
+import { normalizeLevel, registerLevel as addLevel } from './levels'
+import { callbackSink, ringBufferSink } from './sinks'
 import { Spinner } from './spinner'
-import type { LoggerInit, LoggerOptions } from './types'
+import type { LevelDefinition, LoggerInit, LoggerOptions } from './types'
 
 const envLevel = normalizeLevel(process.env.LOG_LEVEL)
 const envDebug = process.env.DEBUG ? process.env.DEBUG.split(',').filter(Boolean) : []
@@ -23,15 +36,37 @@ const logger = createLogger({
 setDebugLogger((msg, meta) => logger.debug(msg, meta))
 setDebugNamespaces(envDebug)
 
+let levelFromInit = false
+
 const baseInit = logger.init?.bind(logger)
 logger.init = (options: LoggerInit = {}) => {
-  const normalized = {
-    ...options,
-    level: normalizeLevel(options.level) ?? options.level,
-  }
-  baseInit?.(normalized)
+  levelFromInit ||= options.level !== undefined
+  baseInit?.(options)
   setDebugNamespaces(options.debugNamespaces ?? envDebug)
 }
 
-export { createLogger, logger, debug, withDebug, Spinner }
+// `LOG_LEVEL` may name a custom level that only exists once registered.
+const registerLevel = (name: string, definition: LevelDefinition): void => {
+  addLevel(name, definition)
+  const level = normalizeLevel(process.env.LOG_LEVEL)
+  if (!envLevel && !levelFromInit && level === name.toLowerCase()) {
+    baseInit?.({ level })
+  }
+}
+
+export {
+  createLogger,
+  logger,
+  debug,
+  withDebug,
+  Spinner,
+  consoleSink,
+  ringBufferSink,
+  callbackSink,
+  fileSink,
+  FileSink,
+  serializeMeta,
+  registerLevel,
+  normalizeLevel,
+}
 export * from './types'
@@ -0,0 +1,115 @@
+import path from 'node:path'
+import { expect, test } from 'bun:test'
+import { consoleSink, createLogger } from './core'
+import { normalizeLevel, registerLevel } from './levels'
+import { ringBufferSink } from './sinks'
+
+const NOW = 1_700_000_000_000
+const AUDIT_PRIORITY = 25
+const EXIT_FATAL = 3
+const timestamp = () => NOW
+
+const createStream = () => {
+  const chunks: string[] = []
+  const stream = { isTTY: true, write: (chunk: string) => chunks.push(chunk) } as unknown as NodeJS.WriteStream
+  return { chunks, stream }
+}
+
+const runScript = async (script: string, env: Record<string, string> = {}) => {
+  const proc = Bun.spawn(['bun', '-e', script], { env: { ...process.env, ...env }, stderr: 'pipe', stdout: 'pipe' })
+  const [stdout, stderr, code] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ])
+  return { code, stderr, stdout }
+}
+
+const importFrom = (file: string) => JSON.stringify(path.join(import.meta.dir, file))
+
+test('orders trace and fatal around the other built-in levels', () => {
+  const out = createStream()
+  const err = createStream()
+  const logger = createLogger({ level: 'trace', sinks: [consoleSink({ stderr: err.stream, stdout: out.stream })] })
+
+  logger.trace('entering')
+  logger.fatal('out of memory')
+  logger.init?.({ level: 'silent' })
+  logger.fatal('muted')
+
+  expect(out.chunks).toEqual(['\x1b[90mTRACE\x1b[0m entering\n'])
+  expect(err.chunks).toEqual(['\x1b[35mFATAL\x1b[0m out of memory\n'])
+})
+
+test('registers custom levels with a priority, colour and stream', () => {
+  registerLevel('Audit', { color: 'green', priority: AUDIT_PRIORITY, stream: 'stderr' })
+  const out = createStream()
+  const err = createStream()
+  const ring = ringBufferSink({ level: 'audit' })
+  const logger = createLogger({ sinks: [consoleSink({ stderr: err.stream, stdout: out.stream }), ring], timestamp })
+
+  logger.info('skipped by the ring')
+  logger.log('audit', 'user deleted', { id: 7 })
+
+  expect(out.chunks).toEqual(['\x1b[36mINFO\x1b[0m skipped by the ring\n'])
+  expect(err.chunks).toEqual(['\x1b[32mAUDIT\x1b[0m user deleted id=7\n'])
+  expect(ring.lines()).toEqual(['AUDIT user deleted id=7\n'])
+})
+
+test('normalizes level names and rejects unusable levels', () => {
+  const logger = createLogger({ sinks: [] })
+
+  expect(normalizeLevel('Fatal')).toBe('fatal')
+  expect(normalizeLevel('AUDIT')).toBe('audit')
+  expect(normalizeLevel('verbose')).toBeUndefined()
+  expect(() => registerLevel('info', { priority: AUDIT_PRIORITY })).toThrow('built-in log level "info"')
+  expect(() => logger.log('verbose', 'nope')).toThrow('Cannot log at level "verbose"')
+  expect(() => logger.log('silent', 'nope')).toThrow('Cannot log at level "silent"')
+})
+
+test('falls back to info for unknown thresholds instead of throwing', () => {
+  const ring = ringBufferSink({ level: 'loud' })
+  const logger = createLogger({ level: 'verbose', sinks: [ring], timestamp })
+
+  logger.debug('hidden')
+  logger.info('shown')
+  logger.init?.({ level: 'chatty', sinks: [ring, ringBufferSink()] })
+  logger.warn('still shown')
+
+  expect(ring.lines()).toEqual(['INFO shown\n', 'WARN still shown\n'])
+})
+
+test('fatal flushes every sink before exiting when asked', async () => {
+  const { code, stdout } = await runScript(`
+    import { createLogger } from ${importFrom('core.ts')}
+    import { callbackSink } from ${importFrom('sinks.ts')}
+    const logger = createLogger({
+      exitOnFatal: true,
+      fatalExitCode: ${EXIT_FATAL},
+      sinks: [callbackSink(async (_record, line) => {
+        await Bun.sleep(10)
+        process.stdout.write(line)
+      })],
+    })
+    logger.fatal('disk full')
+    setTimeout(() => process.stdout.write('still running\\n'), 1000)
+  `)
+
+  expect(code).toBe(EXIT_FATAL)
+  expect(stdout).toBe('FATAL disk full\n')
+})
+
+test('LOG_LEVEL accepts new and registered levels', async () => {
+  const script = `
+    import { logger, registerLevel } from ${importFrom('index.ts')}
+    registerLevel('audit', { priority: ${AUDIT_PRIORITY} })
+    logger.info('info')
+    logger.log('audit', 'audit')
+    logger.trace('trace')
+  `
+  const traced = await runScript(script, { LOG_LEVEL: 'TRACE' })
+  const audited = await runScript(script, { LOG_LEVEL: 'audit' })
+
+  expect(traced.stdout).toBe('INFO info\nAUDIT audit\nTRACE trace\n')
+  expect(audited.stdout).toBe('AUDIT audit\n')
+})
@@ -0,0 +1,81 @@
+import type { BuiltinLogLevel, LevelDefinition, LogColor, LogLevel } from './types'
+
+const PRIORITY_TRACE = 5
+const PRIORITY_DEBUG = 10
+const PRIORITY_INFO = 20
+const PRIORITY_WARN = 30
+const PRIORITY_ERROR = 40
+const PRIORITY_FATAL = 50
+
+export const RESET = '\x1b[0m'
+
+const COLORS: Record<LogColor, string> = {
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+  dim: '\x1b[2m',
+  gray: '\x1b[90m',
+  green: '\x1b[32m',
+  magenta: '\x1b[35m',
+  red: '\x1b[31m',
+  white: '\x1b[37m',
+  yellow: '\x1b[33m',
+}
+
+// `silent` outranks every level, registered ones included, so it always mutes the logger.
+const BUILTIN_LEVELS: Record<BuiltinLogLevel, LevelDefinition> = {
+  debug: { color: 'dim', priority: PRIORITY_DEBUG },
+  error: { color: 'red', priority: PRIORITY_ERROR, stream: 'stderr' },
+  fatal: { color: 'magenta', priority: PRIORITY_FATAL, stream: 'stderr' },
+  info: { color: 'cyan', priority: PRIORITY_INFO },
+  silent: { priority: Number.POSITIVE_INFINITY },
+  trace: { color: 'gray', priority: PRIORITY_TRACE },
+  warn: { color: 'yellow', priority: PRIORITY_WARN, stream: 'stderr' },
+}
+
+const levels = new Map<string, LevelDefinition>(Object.entries(BUILTIN_LEVELS))
+
+/**
+ * Adds a level usable with `logger.log(name, ...)`, as a threshold, and in `LOG_LEVEL`. Names are
+ * case-insensitive; registering a custom name again replaces it, built-in levels cannot be changed.
+ */
+export const registerLevel = (name: string, definition: LevelDefinition): void => {
+  const key = name.toLowerCase()
+  if (key in BUILTIN_LEVELS) {
+    throw new Error(`Cannot redefine the built-in log level "${key}"`)
+  }
+  if (!/^[a-z][\w-]*$/.test(key)) {
+    throw new Error(`Invalid log level name "${name}"`)
+  }
+  if (!Number.isFinite(definition.priority)) {
+    throw new TypeError(`Log level "${key}" needs a finite priority`)
+  }
+  levels.set(key, definition)
+}
+
+export const normalizeLevel = (level?: string): LogLevel | undefined => {
+  const value = level?.toLowerCase()
+  return value !== undefined && levels.has(value) ? value : undefined
+}
+
+/** Like `normalizeLevel`, but falls back to `info` so an unknown threshold can never break a log call. */
+export const resolveLevel = (level?: string): LogLevel => normalizeLevel(level) ?? 'info'
+
+// Records are checked by `assertLoggable` first, so only thresholds (ex: a sink's `level`) can be unknown here.
+const definitionOf = (level: LogLevel): LevelDefinition => levels.get(level) ?? BUILTIN_LEVELS.info
+
+/** Throws for levels a record cannot have: unregistered ones and `silent`, which only works as a threshold. */
+export const assertLoggable = (level: LogLevel): void => {
+  if (level === 'silent' || !levels.has(level)) {
+    throw new Error(`Cannot log at level "${level}"`)
+  }
+}
+
+export const shouldLog = (level: LogLevel, configured: LogLevel): boolean =>
+  definitionOf(level).priority >= definitionOf(configured).priority
+
+export const levelColor = (level: LogLevel): string => {
+  const { color } = definitionOf(level)
+  return color ? COLORS[color] : RESET
+}
+
+export const levelStream = (level: LogLevel): 'stdout' | 'stderr' => definitionOf(level).stream ?? 'stdout'
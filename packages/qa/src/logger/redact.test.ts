@@ -0,0 +1,49 @@
+import { expect, test } from 'bun:test'
+import { createLogger } from './core'
+import { compileRedaction, redactMeta } from './redact'
+import { ringBufferSink } from './sinks'
+
+const NOW = 1_700_000_000_000
+
+test('redacts key paths, globs and matching values', () => {
+  const redaction = compileRedaction({
+    paths: ['headers.authorization', '*.password', '**.token', 'cards.*.number'],
+    values: [/^sk_live_/g],
+  })
+  const meta = {
+    cards: [{ brand: 'visa', number: '4242' }],
+    headers: { Authorization: 'Bearer abc', accept: 'json' },
+    key: 'sk_live_123',
+    password: 'top-level',
+    session: { nested: { token: 't' } },
+    user: { name: 'ada', password: 'hunter2' },
+  }
+
+  expect(redactMeta(meta, redaction)).toEqual({
+    cards: [{ brand: 'visa', number: '[REDACTED]' }],
+    headers: { Authorization: '[REDACTED]', accept: 'json' },
+    key: '[REDACTED]',
+    password: 'top-level',
+    session: { nested: { token: '[REDACTED]' } },
+    user: { name: 'ada', password: '[REDACTED]' },
+  })
+  expect(redactMeta({ key: 'sk_live_456' }, redaction)).toEqual({ key: '[REDACTED]' })
+  expect(meta.user.password).toBe('hunter2')
+})
+
+test('applies to pretty and JSON output and to child loggers', () => {
+  const pretty = ringBufferSink({ format: 'pretty' })
+  const json = ringBufferSink({ format: 'json' })
+  const logger = createLogger({
+    redact: { paths: ['password', 'headers.authorization'] },
+    sinks: [pretty, json],
+    timestamp: () => NOW,
+  })
+
+  logger.child({ headers: { authorization: 'Bearer abc' } }).info('login', { password: 'hunter2', user: 'ada' })
+
+  expect(pretty.lines()).toEqual(['INFO login headers={"authorization":"[REDACTED]"} password=[REDACTED] user=ada\n'])
+  expect(json.lines()).toEqual([
+    '{"level":"info","msg":"login","timestamp":1700000000000,"headers":{"authorization":"[REDACTED]"},"password":"[REDACTED]","user":"ada"}\n',
+  ])
+})
@@ -0,0 +1,75 @@
+import type { LogMeta, RedactOptions } from './types'
+
+export const REDACTED = '[REDACTED]'
+
+const NONE = 0
+const FIRST_KEY = 1
+const ANY_KEY = '*'
+const ANY_DEPTH = '**'
+
+export interface Redaction {
+  paths: string[][]
+  values: RegExp[]
+}
+
+interface Walk {
+  keys: string[]
+  seen: WeakSet<object>
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const proto = Object.getPrototypeOf(value) as unknown
+  return proto === Object.prototype || proto === null
+}
+
+/** Returns undefined when there is nothing to redact, so the common case skips the walk entirely. */
+export const compileRedaction = (options?: RedactOptions): Redaction | undefined => {
+  const paths = (options?.paths ?? []).map((pattern) => pattern.toLowerCase().split('.'))
+  const values = options?.values ?? []
+  return paths.length === NONE && values.length === NONE ? undefined : { paths, values }
+}
+
+// `*` matches one key and `**` any number of keys (including none); keys compare case-insensitively.
+const matchesPath = (pattern: string[], keys: string[]): boolean => {
+  const [head, ...rest] = pattern
+  if (head === undefined) {
+    return keys.length === NONE
+  }
+  if (head === ANY_DEPTH) {
+    return matchesPath(rest, keys) || (keys.length > NONE && matchesPath(pattern, keys.slice(FIRST_KEY)))
+  }
+  const [key, ...others] = keys
+  return key !== undefined && (head === ANY_KEY || head === key) && matchesPath(rest, others)
+}
+
+const matchesValue = (value: string, matchers: RegExp[]) =>
+  matchers.some((matcher) => {
+    // Global and sticky regexes keep state between `test()` calls.
+    matcher.lastIndex = NONE
+    return matcher.test(value)
+  })
+
+const redactValue = (value: unknown, redaction: Redaction, walk: Walk): unknown => {
+  if (redaction.paths.some((pattern) => matchesPath(pattern, walk.keys))) {
+    return REDACTED
+  }
+  if (typeof value === 'string') {
+    return matchesValue(value, redaction.values) ? REDACTED : value
+  }
+  if (!(Array.isArray(value) || isPlainObject(value)) || walk.seen.has(value)) {
+    return value
+  }
+  walk.seen.add(value)
+  const child = (key: string, item: unknown) =>
+    redactValue(item, redaction, { keys: [...walk.keys, key.toLowerCase()], seen: walk.seen })
+  return Array.isArray(value)
+    ? value.map((item, index) => child(String(index), item))
+    : Object.fromEntries(Object.entries(value).map(([key, item]) => [key, child(key, item)]))
+}
+
+/** Copies `meta` with every matching key path or string value replaced by `[REDACTED]`. */
+export const redactMeta = (meta: LogMeta, redaction?: Redaction): LogMeta =>
+  redaction ? (redactValue(meta, redaction, { keys: [], seen: new WeakSet() }) as LogMeta) : meta
@@ -0,0 +1,80 @@
+import { expect, test } from 'bun:test'
+import { createLogger, serializeMeta } from './core'
+import { ringBufferSink } from './sinks'
+
+const NOW = 1_700_000_000_000
+const MAX_ITEMS = 2
+const MAX_STRING_LENGTH = 5
+const MAX_DEPTH = 2
+const BIG = 100_000_000_000_000_000_000n
+const SCORE = 1
+
+test('expands errors with their cause chain', () => {
+  const cause = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' })
+  const { err } = serializeMeta({ err: new TypeError('fetch failed', { cause }) }) as {
+    err: Record<string, unknown> & { cause: Record<string, unknown> }
+  }
+
+  expect(err).toMatchObject({ message: 'fetch failed', name: 'TypeError' })
+  expect(err.stack).toContain('TypeError: fetch failed')
+  expect(err.cause).toMatchObject({ code: 'ECONNREFUSED', message: 'connect ECONNREFUSED', name: 'Error' })
+})
+
+test('handles cycles, collections, dates and bigints', () => {
+  const node: Record<string, unknown> = { name: 'root' }
+  node.self = node
+  const shared = { id: 1 }
+
+  expect(
+    serializeMeta({
+      at: new Date(NOW),
+      big: BIG,
+      node,
+      pair: [shared, shared],
+      roles: new Set(['admin']),
+      scores: new Map([['ada', SCORE]]),
+    }),
+  ).toEqual({
+    at: '2023-11-14T22:13:20.000Z',
+    big: '100000000000000000000',
+    node: { name: 'root', self: '[Circular]' },
+    pair: [{ id: 1 }, { id: 1 }],
+    roles: ['admin'],
+    scores: { ada: SCORE },
+  })
+})
+
+test('applies depth and length limits', () => {
+  const meta = { deep: { outer: { inner: { leaf: true } } }, list: ['a', 'b', 'c'], text: 'abcdefgh' }
+
+  expect(
+    serializeMeta(meta, { limits: { maxDepth: MAX_DEPTH, maxItems: MAX_ITEMS, maxStringLength: MAX_STRING_LENGTH } }),
+  ).toEqual({
+    deep: { outer: { inner: '[Object]' } },
+    list: ['a', 'b', '... 1 more items'],
+    text: 'abcde... (3 more chars)',
+  })
+})
+
+test('runs custom serializers by key and never throws in JSON output', () => {
+  const sink = ringBufferSink({ format: 'json' })
+  const logger = createLogger({
+    serializers: { req: (req) => ({ method: (req as Request).method, url: (req as Request).url }) },
+    sinks: [sink],
+    timestamp: () => NOW,
+  })
+  const loop: Record<string, unknown> = {}
+  loop.loop = loop
+
+  logger.info('request', { count: 1n, loop, req: new Request('http://localhost/health') })
+
+  const [line] = sink.lines()
+  expect(JSON.parse(line ?? '')).toEqual({
+    count: '1',
+    level: 'info',
+    loop: { loop: '[Circular]' },
+    msg: 'request',
+    req: { method: 'GET', url: 'http://localhost/health' },
+    timestamp: NOW,
+  })
+})
@@ -0,0 +1,92 @@
+import { expect, test } from 'bun:test'
+import { consoleSink, createLogger } from './core'
+import { callbackSink, ringBufferSink } from './sinks'
+import type { LogRecord } from './types'
+
+const NOW = 1_700_000_000_000
+const RING_SIZE = 2
+const CALLBACK_DELAY_MS = 1
+const timestamp = () => NOW
+
+const createStream = () => {
+  const chunks: string[] = []
+  const stream = { isTTY: false, write: (chunk: string) => chunks.push(chunk) } as unknown as NodeJS.WriteStream
+  return { chunks, stream }
+}
+
+test('fans out to every sink with its own level and format', () => {
+  const out = createStream()
+  const ring = ringBufferSink({ format: 'json', level: 'debug' })
+  const lines: string[] = []
+  const logger = createLogger({
+    level: 'info',
+    sinks: [
+      consoleSink({ level: 'warn', stderr: out.stream, stdout: out.stream }),
+      ring,
+      callbackSink((_record, line) => {
+        lines.push(line)
+      }),
+    ],
+    timestamp,
+  })
+
+  logger.debug('cache miss', { key: 'a' })
+  logger.warn('slow request', { ms: 1200 })
+
+  expect(out.chunks).toEqual(['WARN slow request ms=1200\n'])
+  expect(ring.lines()).toEqual([
+    '{"level":"debug","msg":"cache miss","timestamp":1700000000000,"key":"a"}\n',
+    '{"level":"warn","msg":"slow request","timestamp":1700000000000,"ms":1200}\n',
+  ])
+  expect(lines).toEqual(['WARN slow request ms=1200\n'])
+})
+
+test('the ring buffer keeps only the latest records', () => {
+  const ring = ringBufferSink({ size: RING_SIZE })
+  const logger = createLogger({ sinks: [ring], timestamp })
+
+  logger.info('one')
+  logger.info('two')
+  logger.info('three')
+
+  expect(ring.records().map((record) => record.msg)).toEqual(['two', 'three'])
+  ring.clear()
+  expect(ring.records()).toEqual([])
+})
+
+test('child loggers share the sinks and flush waits for async callbacks', async () => {
+  const received: LogRecord[] = []
+  const closed: string[] = []
+  const logger = createLogger({
+    sinks: [
+      callbackSink(async (record) => {
+        await Bun.sleep(CALLBACK_DELAY_MS)
+        received.push(record)
+      }),
+      { close: () => void closed.push('custom'), write: () => undefined },
+    ],
+    timestamp,
+  })
+
+  logger.child({ task: 'build' }).info('done')
+  expect(received).toEqual([])
+
+  await logger.close()
+  expect(received).toEqual([{ level: 'info', meta: { task: 'build' }, msg: 'done', timestamp: NOW }])
+  expect(closed).toEqual(['custom'])
+})
+
+test('flush rethrows a failed async callback', async () => {
+  const logger = createLogger({
+    sinks: [
+      callbackSink(async () => {
+        throw new Error('collector unreachable')
+      }),
+    ],
+  })
+
+  logger.info('lost')
+
+  await expect(logger.flush()).rejects.toThrow('collector unreachable')
+  await expect(logger.flush()).resolves.toBeUndefined()
+})
@@ -0,0 +1,67 @@
+import { formatRecord } from './core'
+import type { LogCallback, LogRecord, LogSink, RingBufferSink, RingBufferSinkOptions, SinkOptions } from './types'
+
+const DEFAULT_RING_SIZE = 1000
+
+/** Keeps the latest records in memory, for example to attach recent logs to a crash report. */
+export const ringBufferSink = ({
+  format,
+  level,
+  size = DEFAULT_RING_SIZE,
+}: RingBufferSinkOptions = {}): RingBufferSink => {
+  const buffer: LogRecord[] = []
+  return {
+    clear: () => {
+      buffer.length = 0
+    },
+    level,
+    lines: () => buffer.map((record) => formatRecord(record, { format })),
+    records: () => [...buffer],
+    write: (record) => {
+      buffer.push(record)
+      if (buffer.length > size) {
+        buffer.shift()
+      }
+    },
+  }
+}
+
+/**
+ * Hands every record and its formatted line to `callback`. Async callbacks are not awaited per
+ * record; `flush()` waits for the pending ones and rethrows the first failure.
+ */
+export const callbackSink = (callback: LogCallback, { format, level }: SinkOptions = {}): LogSink => {
+  const pending = new Set<Promise<void>>()
+  const failures: unknown[] = []
+
+  const track = (result: Promise<void>) => {
+    const tracked = result.then(
+      () => {
+        pending.delete(tracked)
+      },
+      (error: unknown) => {
+        pending.delete(tracked)
+        failures.push(error)
+      },
+    )
+    pending.add(tracked)
+  }
+
+  return {
+    flush: async () => {
+      await Promise.all(pending)
+      const [failure] = failures
+      failures.length = 0
+      if (failure !== undefined) {
+        throw failure
+      }
+    },
+    level,
+    write: (record) => {
+      const result = callback(record, formatRecord(record, { format }))
+      if (result instanceof Promise) {
+        track(result)
+      }
+    },
+  }
+}
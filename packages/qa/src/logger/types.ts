@@ -1,5 +1,70 @@
-export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+export type BuiltinLogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal' | 'silent'
+/** A built-in level or one added with `registerLevel()`. */
+export type LogLevel = BuiltinLogLevel | (string & {})
 export type LogMeta = Record<string, unknown>
+export type LogFormat = 'pretty' | 'json'
+export type LogColor = 'gray' | 'dim' | 'red' | 'green' | 'yellow' | 'blue' | 'magenta' | 'cyan' | 'white'
+
+export interface LevelDefinition {
+  /** Records pass a threshold when their priority is at least the threshold's (`info` is 20). */
+  priority: number
+  /** Label colour on a TTY (default: none). */
+  color?: LogColor
+  /** Where the console sink writes the level (default: stdout). */
+  stream?: 'stdout' | 'stderr'
+}
+
+/** What a sink receives for every log call that passes its level. */
+export interface LogRecord {
+  level: LogLevel
+  msg: string
+  meta: LogMeta
+  timestamp: number
+}
+
+/**
+ * A log destination. A logger fans every record out to all of its sinks; each sink filters by its
+ * own `level` (default: the logger level) and formats the record itself.
+ */
+export interface LogSink {
+  level?: LogLevel
+  write: (record: LogRecord) => void
+  flush?: () => void | Promise<void>
+  close?: () => void | Promise<void>
+}
+
+export interface SinkOptions {
+  level?: LogLevel
+  format?: LogFormat
+}
+
+export interface ConsoleSinkOptions extends SinkOptions {
+  stdout?: NodeJS.WriteStream
+  stderr?: NodeJS.WriteStream
+  isTTY?: boolean
+}
+
+export interface RedactOptions {
+  /**
+   * Key paths to hide, dot-separated and case-insensitive: `headers.authorization`, `*.password`
+   * (`*` is one key), `**.token` (any depth). Array items are addressed by index or `*`.
+   */
+  paths?: string[]
+  /** String values matching any of these are hidden wherever they appear. */
+  values?: RegExp[]
+}
+
+/** Turns a meta value into something JSON can hold; registered per top-level meta key. */
+export type LogSerializer = (value: unknown) => unknown
+
+export interface SerializeLimits {
+  /** Nesting below this depth prints as `[Object]`/`[Array]` (default: 8). */
+  maxDepth?: number
+  /** Items kept from arrays, sets and maps (default: 100). */
+  maxItems?: number
+  /** Characters kept from strings, stack traces included (default: 10000). */
+  maxStringLength?: number
+}
 
 export interface LoggerInit {
   level?: LogLevel
@@ -9,6 +74,17 @@ export interface LoggerInit {
   stderr?: NodeJS.WriteStream
   isTTY?: boolean
   timestamp?: () => number
+  /** Replaces the default console sink (which follows `stdout`, `stderr`, `json` and `isTTY`). */
+  sinks?: LogSink[]
+  /** Replaces matching meta with `[REDACTED]` before any sink sees it; child loggers inherit it. */
+  redact?: RedactOptions
+  /** Custom serializers by meta key (ex: `req`, `res`); their output is serialized like any other value. */
+  serializers?: Record<string, LogSerializer>
+  serializeLimits?: SerializeLimits
+  /** Flush every sink and exit the process after a `fatal` record. */
+  exitOnFatal?: boolean
+  /** Exit code used by `exitOnFatal` (default: 1). */
+  fatalExitCode?: number
 }
 
 export interface LoggerOptions extends LoggerInit {
@@ -19,13 +95,54 @@ export interface Logger {
   level: LogLevel
   json: boolean
   init?: (options: LoggerInit) => void
+  trace: (msg: string, meta?: LogMeta) => void
   debug: (msg: string, meta?: LogMeta) => void
   info: (msg: string, meta?: LogMeta) => void
   warn: (msg: string, meta?: LogMeta) => void
   error: (msg: string, meta?: LogMeta) => void
+  fatal: (msg: string, meta?: LogMeta) => void
+  /** Logs at any built-in or registered level; throws for unknown levels and `silent`. */
+  log: (level: LogLevel, msg: string, meta?: LogMeta) => void
   child: (meta: LogMeta) => Logger
+  /** Flushes every sink; child loggers share their parent's sinks. */
+  flush: () => Promise<void>
+  /** Flushes and closes every sink. */
+  close: () => Promise<void>
 }
 
+export interface RingBufferSinkOptions extends SinkOptions {
+  /** Number of records kept; older ones are dropped first (default: 1000). */
+  size?: number
+}
+
+export interface RingBufferSink extends LogSink {
+  /** The buffered records, oldest first. */
+  records: () => LogRecord[]
+  /** The buffered records formatted with the sink's `format`. */
+  lines: () => string[]
+  clear: () => void
+}
+
+export interface FileSinkOptions extends SinkOptions {
+  filePath: string
+  /** Rotate before the file would grow past this many bytes. */
+  maxBytes?: number
+  /** Rotate when the first record of a new (UTC) day is written. */
+  daily?: boolean
+  /** Rotated files to keep, `<file>.1` being the newest (default: 5). */
+  maxFiles?: number
+  /** Gzip rotated files (`<file>.1.gz`). */
+  gzip?: boolean
+  /** Buffered bytes that trigger a write (default: 64 KiB). */
+  bufferSize?: number
+  /** Longest time a record stays buffered (default: 1000). */
+  flushIntervalMs?: number
+  /** Flush on `beforeExit`, and synchronously on `exit` after `process.exit()` (default: true). */
+  flushOnExit?: boolean
+}
+
+export type LogCallback = (record: LogRecord, line: string) => void | Promise<void>
+
 export interface SpinnerOptions {
   text: string
   interval?: number
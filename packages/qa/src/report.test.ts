@@ -0,0 +1,117 @@
+import { expect, test } from 'bun:test'
+import { formatSummary, parseOxlintJson, parsePrettierOutput, parseTscOutput, toJUnit, type QaReport } from './report'
+
+const toFile = (file: string) => `packages/core/${file}`
+
+test('parses oxlint JSON diagnostics', () => {
+  const stdout = JSON.stringify({
+    diagnostics: [
+      {
+        code: 'eslint(no-console)',
+        filename: 'src/index.ts',
+        labels: [{ span: { column: 3, line: 7 } }],
+        message: 'Unexpected console statement.',
+        severity: 'warning',
+      },
+    ],
+  })
+
+  expect(parseOxlintJson(stdout, toFile)).toEqual([
+    {
+      column: 3,
+      file: 'packages/core/src/index.ts',
+      line: 7,
+      message: 'Unexpected console statement.',
+      rule: 'eslint(no-console)',
+      severity: 'warning',
+      tool: 'oxlint',
+    },
+  ])
+  expect(parseOxlintJson('', toFile)).toEqual([])
+})
+
+test('gives up on oxlint output that is not JSON', () => {
+  expect(parseOxlintJson('thread main panicked at crates/oxc_linter/src/lib.rs', toFile)).toBeUndefined()
+  expect(parseOxlintJson('Found 1 warning {"diagnostics": [', toFile)).toBeUndefined()
+  expect(parseOxlintJson('Oxlint v1.0.0\n{"diagnostics": []}', toFile)).toEqual([])
+})
+
+test('parses tsc output and folds continuation lines', () => {
+  const stdout = [
+    "src/index.ts(4,9): error TS2322: Type 'string' is not assignable to type 'number'.",
+    "  Type 'a' is not assignable to type 'b'.",
+    "error TS5083: Cannot read file 'tsconfig.base.json'.",
+  ].join('\n')
+
+  const [first, second] = parseTscOutput(stdout, toFile)
+  expect(first).toMatchObject({ column: 9, file: 'packages/core/src/index.ts', line: 4, rule: 'TS2322' })
+  expect(first?.message).toEndWith("\nType 'a' is not assignable to type 'b'.")
+  expect(second).toMatchObject({ file: undefined, rule: 'TS5083', severity: 'error' })
+})
+
+test('parses prettier --list-different output and syntax errors', () => {
+  const diagnostics = parsePrettierOutput(
+    'src/a.ts\n',
+    '[error] src/b.ts: SyntaxError: Unexpected token (1:5)\n',
+    toFile,
+  )
+
+  expect(diagnostics.map(({ file, message }) => `${file}: ${message}`)).toEqual([
+    'packages/core/src/a.ts: not formatted',
+    'packages/core/src/b.ts: SyntaxError: Unexpected token (1:5)',
+  ])
+})
+
+test('parses prettier --check output', () => {
+  const stderr =
+    '[warn] src/a.ts\n[warn] Code style issues found in the above file. Run Prettier with --write to fix.\n'
+
+  expect(parsePrettierOutput('', stderr, toFile)).toEqual([
+    { file: 'packages/core/src/a.ts', message: 'not formatted', severity: 'error', tool: 'prettier' },
+  ])
+})
+
+const report: QaReport = {
+  durationMs: 1500,
+  mode: 'check',
+  startedAt: '2026-01-01T00:00:00.000Z',
+  workspaces: [
+    {
+      name: '@scope/core',
+      path: 'packages/core',
+      tools: [
+        {
+          diagnostics: [
+            { file: 'packages/core/src/a.ts', message: 'not formatted', severity: 'error', tool: 'prettier' },
+          ],
+          durationMs: 1200,
+          status: 'failed',
+          tool: 'prettier',
+        },
+        { diagnostics: [], durationMs: 300, status: 'passed', tool: 'tsc' },
+      ],
+    },
+    { name: 'web', path: 'apps/web', tools: [{ diagnostics: [], durationMs: 0, status: 'skipped', tool: 'tsc' }] },
+  ],
+}
+
+test('summarises every workspace and lists the failed ones', () => {
+  expect(formatSummary(report, ['tsc', 'prettier'])).toBe(
+    [
+      'WORKSPACE      TSC  PRETTIER',
+      'packages/core  ok   1 error',
+      'apps/web       -    -',
+      '',
+      'qa (check): 2 workspaces, 1 error, 0 warnings (failed: packages/core)',
+    ].join('\n'),
+  )
+})
+
+test('writes one JUnit test case per workspace tool', () => {
+  const xml = toJUnit(report)
+
+  expect(xml).toContain('<testsuites name="qa" failures="1" time="1.500">')
+  expect(xml).toContain('<testcase classname="packages/core" name="tsc" time="0.300"/>')
+  expect(xml).toContain('<failure message="prettier failed with 1 error">packages/core/src/a.ts prettier error')
+  expect(xml).toContain('<skipped/>')
+})
@@ -0,0 +1,263 @@
+export type QaTool = 'oxlint' | 'tsc' | 'prettier'
+
+/** `ci` is `check` through the workspaces' own `lint:check`/`format:check` scripts. */
+export type QaMode = 'fix' | 'check' | 'ci'
+
+export interface Diagnostic {
+  tool: QaTool
+  severity: 'error' | 'warning'
+  /** Repo-relative path, when the tool reported one. */
+  file?: string
+  line?: number
+  column?: number
+  rule?: string
+  message: string
+}
+
+export interface ToolResult {
+  tool: QaTool
+  status: 'passed' | 'failed' | 'skipped'
+  durationMs: number
+  diagnostics: Diagnostic[]
+  /** Raw output of a failed run that produced no parsable diagnostics. */
+  output?: string
+}
+
+export interface WorkspaceReport {
+  name: string
+  path: string
+  tools: ToolResult[]
+}
+
+export interface QaReport {
+  mode: QaMode
+  startedAt: string
+  durationMs: number
+  workspaces: WorkspaceReport[]
+}
+
+interface OxlintLabel {
+  span?: { line?: number; column?: number }
+}
+
+interface OxlintDiagnostic {
+  message: string
+  code?: string
+  severity?: string
+  filename?: string
+  labels?: OxlintLabel[]
+}
+
+const NONE = 0
+const STEP = 1
+const MS_PER_SECOND = 1000
+const SECONDS_PRECISION = 3
+const TSC_LINE =
+  /^(?<file>.+?)\((?<line>\d+),(?<column>\d+)\): (?<severity>error|warning) (?<code>TS\d+): (?<message>.*)$/
+const TSC_GLOBAL = /^(?<severity>error|warning) (?<code>TS\d+): (?<message>.*)$/
+const PRETTIER_ERROR = /^\[error\] (?<file>[^:]+): (?<message>.*)$/
+const PRETTIER_UNFORMATTED = /^\[warn\] (?<file>(?!Code style issues ).+)$/
+const XML_ESCAPES: Record<string, string> = { '"': '&quot;', '&': '&amp;', "'": '&apos;', '<': '&lt;', '>': '&gt;' }
+
+const toSeverity = (value: string | undefined): Diagnostic['severity'] => (value === 'error' ? 'error' : 'warning')
+
+// Oxlint can print a banner before the JSON, or crash without printing any.
+const readOxlintReport = (stdout: string) => {
+  const json = stdout.slice(Math.max(stdout.indexOf('{'), NONE))
+  try {
+    return JSON.parse(json) as { diagnostics?: OxlintDiagnostic[] } | null
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * `toFile` maps a path as printed by the tool (relative to its cwd) to a repo-relative one.
+ * Returns undefined when stdout holds no oxlint JSON, so the caller can report the raw output.
+ */
+export const parseOxlintJson = (stdout: string, toFile: (file: string) => string): Diagnostic[] | undefined => {
+  if (!stdout.trim()) {
+    return []
+  }
+  const report = readOxlintReport(stdout)
+  if (report === undefined) {
+    return undefined
+  }
+  const { diagnostics = [] } = report ?? {}
+  return diagnostics.map(({ code, filename, labels, message, severity }) => ({
+    column: labels?.[NONE]?.span?.column,
+    file: filename ? toFile(filename) : undefined,
+    line: labels?.[NONE]?.span?.line,
+    message,
+    rule: code,
+    severity: toSeverity(severity),
+    tool: 'oxlint',
+  }))
+}
+
+const parseTscLine = (line: string, toFile: (file: string) => string): Diagnostic | undefined => {
+  const groups = TSC_LINE.exec(line)?.groups ?? TSC_GLOBAL.exec(line)?.groups
+  if (!groups) {
+    return undefined
+  }
+  return {
+    column: groups.column ? Number(groups.column) : undefined,
+    file: groups.file ? toFile(groups.file) : undefined,
+    line: groups.line ? Number(groups.line) : undefined,
+    message: groups.message ?? '',
+    rule: groups.code,
+    severity: toSeverity(groups.severity),
+    tool: 'tsc',
+  }
+}
+
+/** Parses `tsc --pretty false`; indented continuation lines are folded into the message above. */
+export const parseTscOutput = (stdout: string, toFile: (file: string) => string): Diagnostic[] =>
+  stdout.split('\n').reduce<Diagnostic[]>((diagnostics, line) => {
+    const diagnostic = parseTscLine(line, toFile)
+    const previous = diagnostics.at(-STEP)
+    if (diagnostic) {
+      diagnostics.push(diagnostic)
+    } else if (previous && /^\s+\S/.test(line)) {
+      previous.message = `${previous.message}\n${line.trim()}`
+    }
+    return diagnostics
+  }, [])
+
+const toPrettierDiagnostic = (file: string, message: string): Diagnostic => ({
+  file,
+  message,
+  severity: 'error',
+  tool: 'prettier',
+})
+
+/**
+ * Parses `prettier --list-different` (every stdout line is an unformatted file) or `prettier --check`
+ * (`[warn] <file>` on stderr). `[error]` lines are files that failed to parse.
+ */
+export const parsePrettierOutput = (stdout: string, stderr: string, toFile: (file: string) => string) => {
+  const listed = stdout
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+    .map((file) => toPrettierDiagnostic(toFile(file), 'not formatted'))
+  const reported = stderr.split('\n').flatMap((line): Diagnostic[] => {
+    const unformatted = PRETTIER_UNFORMATTED.exec(line)?.groups
+    const error = PRETTIER_ERROR.exec(line)?.groups
+    if (unformatted) {
+      return [toPrettierDiagnostic(toFile(unformatted.file ?? ''), 'not formatted')]
+    }
+    return error ? [toPrettierDiagnostic(toFile(error.file ?? ''), error.message ?? '')] : []
+  })
+  return [...listed, ...reported]
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === STEP ? '' : 's'}`
+
+const countBySeverity = (diagnostics: Diagnostic[], severity: Diagnostic['severity']) =>
+  diagnostics.filter((diagnostic) => diagnostic.severity === severity).length
+
+const describeTool = ({ diagnostics, status }: ToolResult) => {
+  if (status === 'skipped') {
+    return '-'
+  }
+  const errors = countBySeverity(diagnostics, 'error')
+  const warnings = countBySeverity(diagnostics, 'warning')
+  const parts = [errors > NONE ? plural(errors, 'error') : '', warnings > NONE ? plural(warnings, 'warning') : '']
+  const counts = parts.filter(Boolean).join(', ')
+  return counts || (status === 'failed' ? 'failed' : 'ok')
+}
+
+const formatLocation = ({ file, line, column }: Diagnostic) =>
+  [file, line, column].filter((part) => part !== undefined).join(':')
+
+export const formatDiagnostic = (diagnostic: Diagnostic) => {
+  const location = formatLocation(diagnostic)
+  const rule = diagnostic.rule ? ` ${diagnostic.rule}` : ''
+  return `${location ? `${location} ` : ''}${diagnostic.tool} ${diagnostic.severity}${rule}: ${diagnostic.message}`
+}
+
+const padTable = (rows: string[][]) => {
+  const widths = rows.reduce<number[]>(
+    (acc, row) => row.map((cell, column) => Math.max(acc[column] ?? NONE, cell.length)),
+    [],
+  )
+  return rows.map((row) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column] ?? NONE))
+      .join('  ')
+      .trimEnd(),
+  )
+}
+
+export const listDiagnostics = (report: QaReport) =>
+  report.workspaces.flatMap((workspace) => workspace.tools.flatMap((result) => result.diagnostics))
+
+export const failedWorkspaces = (report: QaReport) =>
+  report.workspaces.filter((workspace) => workspace.tools.some((result) => result.status === 'failed'))
+
+const formatTotals = (report: QaReport) => {
+  const diagnostics = listDiagnostics(report)
+  const counts = [
+    plural(report.workspaces.length, 'workspace'),
+    plural(countBySeverity(diagnostics, 'error'), 'error'),
+    plural(countBySeverity(diagnostics, 'warning'), 'warning'),
+  ].join(', ')
+  const failed = failedWorkspaces(report).map((workspace) => workspace.path)
+  return `qa (${report.mode}): ${counts}${failed.length > NONE ? ` (failed: ${failed.join(', ')})` : ''}`
+}
+
+/** Table with one row per workspace and one column per tool, followed by a totals line. */
+export const formatSummary = (report: QaReport, tools: QaTool[]) => {
+  const header = ['WORKSPACE', ...tools.map((tool) => tool.toUpperCase())]
+  const rows = report.workspaces.map((workspace) => [
+    workspace.path,
+    ...tools.map((tool) => {
+      const result = workspace.tools.find((entry) => entry.tool === tool)
+      return result ? describeTool(result) : '-'
+    }),
+  ])
+  return [...padTable([header, ...rows]), '', formatTotals(report)].join('\n')
+}
+
+const escapeXml = (value: string) => value.replaceAll(/["&'<>]/g, (char) => XML_ESCAPES[char] ?? char)
+
+const toSeconds = (durationMs: number) => (durationMs / MS_PER_SECOND).toFixed(SECONDS_PRECISION)
+
+const toTestCase = (workspace: WorkspaceReport, result: ToolResult) => {
+  const attributes = `classname="${escapeXml(workspace.path)}" name="${result.tool}" time="${toSeconds(result.durationMs)}"`
+  if (result.status === 'skipped') {
+    return `    <testcase ${attributes}>\n      <skipped/>\n    </testcase>`
+  }
+  if (result.status === 'passed') {
+    return `    <testcase ${attributes}/>`
+  }
+  const body = [...result.diagnostics.map((diagnostic) => formatDiagnostic(diagnostic)), result.output ?? '']
+    .filter(Boolean)
+    .join('\n')
+  const errors = countBySeverity(result.diagnostics, 'error')
+  return `    <testcase ${attributes}>\n      <failure message="${escapeXml(
+    `${result.tool} failed with ${plural(errors, 'error')}`,
+  )}">${escapeXml(body)}</failure>\n    </testcase>`
+}
+
+const toTestSuite = (workspace: WorkspaceReport) => {
+  const failures = workspace.tools.filter((result) => result.status === 'failed').length
+  const skipped = workspace.tools.filter((result) => result.status === 'skipped').length
+  const time = toSeconds(workspace.tools.reduce((total, result) => total + result.durationMs, NONE))
+  return [
+    `  <testsuite name="${escapeXml(workspace.path)}" tests="${workspace.tools.length}" failures="${failures}" skipped="${skipped}" time="${time}">`,
+    ...workspace.tools.map((result) => toTestCase(workspace, result)),
+    '  </testsuite>',
+  ].join('\n')
+}
+
+/** JUnit XML: one test suite per workspace and one test case per tool, for CI test report viewers. */
+export const toJUnit = (report: QaReport) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="qa" failures="${failedWorkspaces(report).length}" time="${toSeconds(report.durationMs)}">`,
+    ...report.workspaces.map((workspace) => toTestSuite(workspace)),
+    '</testsuites>',
+    '',
+  ].join('\n')
@@ -6,6 +6,7 @@ import { describe, expect, it } from 'bun:test'
 const ROOT_DIR = path.resolve(import.meta.dir, '../..')
 const QA_INIT = path.join(ROOT_DIR, 'qa', 'scripts', 'qa-init.ts')
 const EXIT_SUCCESS = 0
+const EXIT_FAILURE = 1
 const JSON_INDENT = 2
 const TEMP_ROOT = '/tmp'
 
@@ -22,6 +23,16 @@ const runQaInit = async (args: string[]) => {
   }
 }
 
+const runQaInitCheck = async (args: string[]) => {
+  const proc = Bun.spawn(['bun', QA_INIT, ...args, '--check'], {
+    cwd: ROOT_DIR,
+    stderr: 'pipe',
+    stdout: 'pipe',
+  })
+  const [exitCode, stdout] = await Promise.all([proc.exited, new Response(proc.stdout).text()])
+  return { exitCode, stdout }
+}
+
 const writeJson = async (filePath: string, data: unknown) => {
   await writeFile(filePath, `${JSON.stringify(data, undefined, JSON_INDENT)}\n`, 'utf8')
 }
@@ -50,6 +61,8 @@ const expectLibScripts = (pkg: { scripts: Record<string, string>; devDependencie
   expect(pkg.scripts.build).toBe('bunup')
   expect(pkg.scripts.lint).toContain('oxlint')
   expect(pkg.scripts.format).toContain('prettier')
+  expect(pkg.scripts['lint:check']).toBe('oxlint --config oxlint.json .')
+  expect(pkg.scripts['format:check']).toBe('prettier --config prettier.config.cjs --check .')
   expect(pkg.scripts.typecheck).toContain('tsc')
   expect(pkg.devDependencies['@bun-monorepo-template/qa']).toBe('workspace:*')
 }
@@ -60,6 +73,15 @@ const expectConfigFiles = (dir: string) => {
   expect(existsSync(path.join(dir, 'tsconfig.json'))).toBeTrue()
 }
 
+const createGlobRoot = async () => {
+  const root = path.join(TEMP_ROOT, `qa-init-glob-${Date.now()}`)
+  await mkdir(path.join(root, 'lib-a'), { recursive: true })
+  await mkdir(path.join(root, 'ui-b'), { recursive: true })
+  await writeJson(path.join(root, 'lib-a', 'package.json'), { name: 'lib-a', private: true })
+  await writeJson(path.join(root, 'ui-b', 'package.json'), { dependencies: { tailwindcss: '^4.0.0' }, name: 'ui-b' })
+  return root
+}
+
 describe('qa:init', () => {
   it('writes configs and scripts for lib packages', async () => {
     const dir = await createTempPackage('sample-lib')
@@ -92,7 +114,7 @@ describe('qa:init', () => {
     }
   })
 
-  it('parses JSON with comments', async () => {
+  it('keeps comments and formatting when editing tsconfig.json', async () => {
     const dir = await createTempPackage('sample-jsonc')
 
     const tsconfig = `{
@@ -106,12 +128,168 @@ describe('qa:init', () => {
 
     try {
       await runQaInit([dir, '--kind', 'lib'])
-      const config = JSON.parse(await readFile(path.join(dir, 'tsconfig.json'), 'utf8')) as {
-        extends?: string
-      }
-      expect(config.extends).toBe('@bun-monorepo-template/qa/tsconfig/node')
+      expect(await readFile(path.join(dir, 'tsconfig.json'), 'utf8')).toBe(`{
+  // comment
+  "compilerOptions": {
+    "target": "ESNext"
+  },
+  "extends": "@bun-monorepo-template/qa/tsconfig/node"
+}\n`)
+    } finally {
+      await rm(dir, { force: true, recursive: true })
+    }
+  })
+
+  it('appends the oxlint preset without reformatting oxlint.json', async () => {
+    const dir = await createTempPackage('sample-oxlint')
+    const oxlint = `{
+  "$schema": "../../node_modules/oxlint/configuration_schema.json",
+  // Project rules first
+  "extends": ["./base.json"],
+  "rules": { "no-console": "off" }
+}\n`
+    await writeFile(path.join(dir, 'oxlint.json'), oxlint, 'utf8')
+
+    try {
+      await runQaInit([dir, '--kind', 'lib'])
+      expect(await readFile(path.join(dir, 'oxlint.json'), 'utf8')).toBe(
+        oxlint.replace('["./base.json"]', '["./base.json", "@bun-monorepo-template/qa/oxlint"]'),
+      )
+    } finally {
+      await rm(dir, { force: true, recursive: true })
+    }
+  })
+
+  it('reports drift with --check without writing', async () => {
+    const dir = await createTempPackage('sample-check')
+
+    try {
+      const drifted = await runQaInitCheck([dir, '--kind', 'lib'])
+      expect(drifted.exitCode).toBe(EXIT_FAILURE)
+      expect(drifted.stdout).toContain('+    "lint": "oxlint --config oxlint.json --fix .",')
+      expect(drifted.stdout).toContain('--- /dev/null')
+      expect(existsSync(path.join(dir, 'oxlint.json'))).toBeFalse()
+    } finally {
+      await rm(dir, { force: true, recursive: true })
+    }
+  })
+
+  it('passes --check once the config is applied', async () => {
+    const dir = await createTempPackage('sample-check-clean')
+
+    try {
+      await runQaInit([dir, '--kind', 'lib'])
+      const clean = await runQaInitCheck([dir, '--kind', 'lib'])
+      expect(clean.exitCode).toBe(EXIT_SUCCESS)
+      expect(clean.stdout).toContain('QA config is up to date')
+    } finally {
+      await rm(dir, { force: true, recursive: true })
+    }
+  })
+
+  it('applies every workspace matched by a --dir glob', async () => {
+    const root = await createGlobRoot()
+    const pattern = path.join(root, '*')
+
+    try {
+      await runQaInit(['--dir', pattern, '--kind', 'lib'])
+      expectConfigFiles(path.join(root, 'ui-b'))
+
+      const summary = await runQaInitCheck(['--dir', pattern, '--kind', 'lib'])
+      expect(summary.exitCode).toBe(EXIT_SUCCESS)
+      expect(summary.stdout).toMatch(/WORKSPACE\s+KIND\s+TAILWIND\s+DRIFT/)
+      expect(summary.stdout).toMatch(/ui-b\s+lib\s+yes\s+-/)
+    } finally {
+      await rm(root, { force: true, recursive: true })
+    }
+  })
+
+  it('honours the qa block in package.json over the heuristics', async () => {
+    const dir = await createTempPackage('client-utils', {
+      qa: { bunup: false, kind: 'lib', tsconfigPreset: 'react-lib' },
+    })
+
+    try {
+      await runQaInit([dir])
+      const pkg = await readPackageJson(dir)
+      expect(pkg.scripts.build).toBeUndefined()
+      expect(existsSync(path.join(dir, 'bunup.config.ts'))).toBeFalse()
+      const tsconfig = JSON.parse(await readFile(path.join(dir, 'tsconfig.json'), 'utf8')) as { extends: string }
+      expect(tsconfig.extends).toBe('@bun-monorepo-template/qa/tsconfig/react-lib')
+    } finally {
+      await rm(dir, { force: true, recursive: true })
+    }
+  })
+
+  it('picks the declarations preset for publishable libraries and persists --tsconfig', async () => {
+    const dir = await createTempPackage('sample-publish', { private: false, types: './dist/index.d.ts' })
+    const readExtends = async () =>
+      (JSON.parse(await readFile(path.join(dir, 'tsconfig.json'), 'utf8')) as { extends: string }).extends
+
+    try {
+      await runQaInit([dir, '--kind', 'lib'])
+      expect(await readExtends()).toBe('@bun-monorepo-template/qa/tsconfig/declarations')
+
+      await runQaInit([dir, '--tsconfig', 'worker', '--force'])
+      expect(await readExtends()).toBe('@bun-monorepo-template/qa/tsconfig/worker')
+      const pkg = JSON.parse(await readFile(path.join(dir, 'package.json'), 'utf8')) as { qa: unknown }
+      expect(pkg.qa).toEqual({ kind: 'lib', tsconfigPreset: 'worker' })
+    } finally {
+      await rm(dir, { force: true, recursive: true })
+    }
+  })
+})
+
+describe('qa:init flags', () => {
+  it('persists the flags of a run into the qa block', async () => {
+    const dir = await createTempPackage('sample-persist', { qa: { bunup: false } })
+
+    try {
+      await runQaInit([dir, '--kind', 'cli', '--tailwind'])
+      const pkg = JSON.parse(await readFile(path.join(dir, 'package.json'), 'utf8')) as { qa: unknown }
+      expect(pkg.qa).toEqual({ bunup: false, kind: 'cli', tailwind: true })
+
+      const clean = await runQaInitCheck([dir])
+      expect(clean.exitCode).toBe(EXIT_SUCCESS)
+    } finally {
+      await rm(dir, { force: true, recursive: true })
+    }
+  })
+
+  it('turns Tailwind off with --no-tailwind, even for web apps', async () => {
+    const dir = await createTempPackage('sample-no-tailwind', { qa: { tailwind: true } })
+
+    try {
+      await runQaInit([dir, '--kind', 'web', '--no-tailwind', '--force'])
+      const pkg = JSON.parse(await readFile(path.join(dir, 'package.json'), 'utf8')) as { qa: unknown }
+      expect(pkg.qa).toEqual({ kind: 'web', tailwind: false })
+      expect(await readFile(path.join(dir, 'prettier.config.cjs'), 'utf8')).not.toContain('prettier-tailwind')
+    } finally {
+      await rm(dir, { force: true, recursive: true })
+    }
+  })
+
+  it('does not report the flags of a --check run as drift', async () => {
+    const dir = await createTempPackage('sample-check-flags')
+
+    try {
+      await runQaInit([dir, '--kind', 'lib'])
+      const { exitCode } = await runQaInitCheck([dir, '--kind', 'lib', '--no-tailwind'])
+      const pkg = JSON.parse(await readFile(path.join(dir, 'package.json'), 'utf8')) as { qa: unknown }
+
+      expect(exitCode).toBe(EXIT_SUCCESS)
+      expect(pkg.qa).toEqual({ kind: 'lib' })
     } finally {
       await rm(dir, { force: true, recursive: true })
     }
   })
+
+  it('fails --check on a missing directory without creating it', async () => {
+    const dir = path.join(TEMP_ROOT, `qa-init-missing-${Date.now()}`)
+
+    const { exitCode } = await runQaInitCheck([dir])
+
+    expect(exitCode).toBe(EXIT_FAILURE)
+    expect(existsSync(dir)).toBeFalse()
+  })
 })
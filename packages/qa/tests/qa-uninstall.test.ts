@@ -0,0 +1,94 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { describe, expect, it } from 'bun:test'
+
+const ROOT_DIR = path.resolve(import.meta.dir, '../..')
+const QA_INIT = path.join(ROOT_DIR, 'qa', 'scripts', 'qa-init.ts')
+const QA_UNINSTALL = path.join(ROOT_DIR, 'qa', 'scripts', 'qa-uninstall.ts')
+const EXIT_SUCCESS = 0
+const JSON_INDENT = 2
+const TEMP_ROOT = '/tmp'
+
+const run = async (script: string, args: string[]) => {
+  const proc = Bun.spawn(['bun', script, ...args], {
+    cwd: ROOT_DIR,
+    stderr: 'pipe',
+    stdout: 'pipe',
+  })
+  const [exitCode, stdout, stderr] = await Promise.all([
+    proc.exited,
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ])
+  if (exitCode !== EXIT_SUCCESS) {
+    throw new Error(stderr || `${path.basename(script)} failed with code ${exitCode}`)
+  }
+  return { stderr, stdout }
+}
+
+const createInitializedPackage = async (name: string) => {
+  const dir = path.join(TEMP_ROOT, `qa-uninstall-${name}-${Date.now()}`)
+  await mkdir(dir, { recursive: true })
+  const pkg = { name, private: true, scripts: { test: 'bun test' }, version: '0.0.0' }
+  await writeFile(path.join(dir, 'package.json'), `${JSON.stringify(pkg, undefined, JSON_INDENT)}\n`, 'utf8')
+  await run(QA_INIT, [dir, '--kind', 'lib'])
+  return dir
+}
+
+const readText = (dir: string, file: string) => readFile(path.join(dir, file), 'utf8')
+
+const readPackageJson = async (dir: string) =>
+  JSON.parse(await readText(dir, 'package.json')) as {
+    scripts: Record<string, string>
+    devDependencies: Record<string, string>
+  }
+
+describe('qa:uninstall', () => {
+  it('removes the scripts and dev dependency added by qa:init', async () => {
+    const dir = await createInitializedPackage('sample-detach')
+
+    try {
+      const { stderr } = await run(QA_UNINSTALL, [dir])
+      const pkg = await readPackageJson(dir)
+      expect(pkg.scripts).toEqual({ test: 'bun test' })
+      expect(pkg.devDependencies['@bun-monorepo-template/qa']).toBeUndefined()
+      expect(stderr).toContain('still use @bun-monorepo-template/qa presets')
+    } finally {
+      await rm(dir, { force: true, recursive: true })
+    }
+  })
+
+  it('keeps scripts that were customised after qa:init', async () => {
+    const dir = await createInitializedPackage('sample-custom')
+    const pkg = await readPackageJson(dir)
+    pkg.scripts.lint = 'oxlint --deny-warnings .'
+    await writeFile(path.join(dir, 'package.json'), JSON.stringify(pkg), 'utf8')
+
+    try {
+      const { stdout } = await run(QA_UNINSTALL, [dir])
+      const { scripts } = await readPackageJson(dir)
+      expect(scripts.lint).toBe('oxlint --deny-warnings .')
+      expect(stdout).toContain('Kept customised scripts: lint')
+    } finally {
+      await rm(dir, { force: true, recursive: true })
+    }
+  })
+
+  it('inlines the presets with --inline', async () => {
+    const dir = await createInitializedPackage('sample-inline')
+
+    try {
+      const { stderr } = await run(QA_UNINSTALL, [dir, '--inline'])
+      expect(stderr).toBe('')
+      const [tsconfig, oxlint, prettier] = await Promise.all(
+        ['tsconfig.json', 'oxlint.json', 'prettier.config.cjs'].map((file) => readText(dir, file)),
+      )
+      expect(tsconfig).not.toContain('extends')
+      expect(tsconfig).toContain('"noUncheckedIndexedAccess": true')
+      expect(oxlint).toContain('"no-ternary": "off"')
+      expect(prettier).toContain('"printWidth": 120')
+    } finally {
+      await rm(dir, { force: true, recursive: true })
+    }
+  })
+})
@@ -43,7 +43,7 @@ const replaceInFile = async (filePath: string, replacements: Array<[string, stri
 }
 
 const shouldIgnoreDir = (name: string) =>
-  name === 'node_modules' || name === '.git' || name === '.dev' || name === '.bun-create' || name === 'dist'
+  name === 'node_modules' || name === '.git' || name === '.dev' || name === 'dist'
 
 const walk = async (dir: string, replacements: Array<[string, string]>) => {
   const entries = await readdir(dir, { withFileTypes: true })